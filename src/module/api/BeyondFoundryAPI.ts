@@ -1,5 +1,6 @@
 import type {
   DDBCharacter,
+  DDBClass,
   CharacterListResponse,
   ImportResult,
   AuthResponse,
@@ -7,11 +8,18 @@ import type {
   DDBSpell,
   FoundrySpell,
   DDBItem,
+  ClassSpellcasting,
+  FoundryActivity,
+  FoundryItemData,
+  GrantedSpellSource,
+  ItemSpell,
 } from '../../types/index.js';
 import { getModuleSettings } from '../utils/settings.js';
 import { Logger, getErrorMessage } from '../utils/logger.js';
 import { DEFAULT_IMPORT_OPTIONS } from '../constants.js';
 import { CharacterParser } from '../../parsers/character/CharacterParser.js';
+import { SpellcastingCalculator } from '../../parsers/spells/SpellcastingCalculator.js';
+import { ActivityAdapter } from '../../parsers/activities/ActivityAdapter.js';
 
 /**
  * Main API class for Beyond Foundry module
@@ -238,13 +246,26 @@ export class BeyondFoundryAPI {
       const importOptions = { ...DEFAULT_IMPORT_OPTIONS, ...options };
 
       // Parse character data to FoundryVTT format
-      const actorData = CharacterParser.parseCharacter(ddbCharacter);
+      const actorData = await CharacterParser.parseCharacter(ddbCharacter, importOptions);
 
-      // Remove inventory items from actorData.items (will be handled via compendium linking)
+      // Remove inventory items from actorData.items (will be handled via compendium linking).
+      // Custom items have no DDB definition to link, so they stay embedded.
       if (actorData.items) {
         actorData.items = actorData.items.filter(
-          (item: { type?: string }) => item.type !== 'weapon' && item.type !== 'equipment' && item.type !== 'loot' && item.type !== 'consumable' && item.type !== 'tool'
+          item =>
+            (item.flags?.['beyond-foundry'] as Record<string, unknown> | undefined)?.customItem ||
+            (item.type !== 'weapon' && item.type !== 'equipment' && item.type !== 'loot' && item.type !== 'consumable' && item.type !== 'tool')
         );
+        if (importOptions.importSpells === false) {
+          actorData.items = actorData.items.filter(item => item.type !== 'spell');
+        }
+        actorData.items = actorData.items.map(item => ActivityAdapter.adapt(item, importOptions.itemDataModel));
+      }
+
+      // Class spells are embedded after creation so they can link to the spell compendium
+      const classSpells = actorData.items?.filter(item => this.isClassSpell(item)) ?? [];
+      if (actorData.items) {
+        actorData.items = actorData.items.filter(item => !this.isClassSpell(item));
       }
 
       // Check if character already exists
@@ -287,37 +308,46 @@ export class BeyondFoundryAPI {
       // --- Canonical item compendium linking ---
       if (importOptions.importItems !== false && ddbCharacter.inventory && ddbCharacter.inventory.length > 0) {
         try {
-          const importedCount = await this.addItemsToActor(actor, ddbCharacter.inventory, importOptions);
+          const importedCount = await this.addItemsToActor(actor, ddbCharacter.inventory, importOptions, ddbCharacter);
           Logger.info(`Linked/embedded ${importedCount} inventory items for character: ${actor.name}`);
         } catch (itemError) {
           Logger.warn(`Item import failed: ${getErrorMessage(itemError)}`);
           warnings.push(`Item import failed: ${getErrorMessage(itemError)}`);
         }
-      }
 
-      // Import spells if the character has any
-      if (importOptions.importSpells && ddbCharacter.spells) {
+        // Wand and staff spells spend the item's charges; the item only has an id now
         try {
-          // Count total spells across all spell lists
-          const totalSpells = Object.values(ddbCharacter.spells).reduce(
-            (sum, spellArray) => sum + (Array.isArray(spellArray) ? spellArray.length : 0),
-            0
-          );
+          await this.linkItemSpellCharges(actor);
+          await this.addItemCastActivities(actor);
+        } catch (linkError) {
+          Logger.warn(`Item spell linking failed: ${getErrorMessage(linkError)}`);
+        }
+      }
 
-          if (totalSpells > 0) {
-            Logger.info(`Importing ${totalSpells} spells for character: ${actor.name}`);
+      if (classSpells.length > 0) {
+        try {
+          const linkedCount = await this.addClassSpellsToActor(actor, classSpells, importOptions);
+          Logger.info(`Linked/embedded ${linkedCount} class spells for character: ${actor.name}`);
+        } catch (spellError) {
+          Logger.warn(`Class spell import failed: ${getErrorMessage(spellError)}`);
+          warnings.push(`Class spell import failed: ${getErrorMessage(spellError)}`);
+        }
+      }
 
-            const spellResults = await this.importCharacterSpells(
-              actor,
-              ddbCharacter,
-              importOptions
-            );
-            if (spellResults.warnings && spellResults.warnings.length > 0) {
-              warnings.push(...spellResults.warnings);
-            }
-            if (spellResults.errors && spellResults.errors.length > 0) {
-              warnings.push(`Some spells failed to import: ${spellResults.errors.join(', ')}`);
-            }
+      // Known and prepared spells are embedded from classSpells above; fetch the
+      // always-prepared and spellbook spells the character payload leaves out
+      if (importOptions.importSpells && ddbCharacter.classes?.some(classInfo => this.isSpellcastingClass(classInfo))) {
+        try {
+          const spellResults = await this.importCharacterSpells(
+            actor,
+            ddbCharacter,
+            importOptions
+          );
+          if (spellResults.warnings && spellResults.warnings.length > 0) {
+            warnings.push(...spellResults.warnings);
+          }
+          if (spellResults.errors && spellResults.errors.length > 0) {
+            warnings.push(`Some spells failed to import: ${spellResults.errors.join(', ')}`);
           }
         } catch (spellError) {
           Logger.warn(`Spell import failed: ${getErrorMessage(spellError)}`);
@@ -325,6 +355,15 @@ export class BeyondFoundryAPI {
         }
       }
 
+      // Consumed materials (Revivify's diamond) spend a carried item when one matches
+      if (importOptions.importItems !== false) {
+        try {
+          await this.linkMaterialComponents(actor);
+        } catch (linkError) {
+          Logger.warn(`Material component linking failed: ${getErrorMessage(linkError)}`);
+        }
+      }
+
       Logger.info(`Successfully imported character: ${actor.name}`);
 
       return {
@@ -343,13 +382,137 @@ export class BeyondFoundryAPI {
     }
   }
 
+  /**
+   * Point spells granted by an item at that item's charges
+   */
+  private async linkItemSpellCharges(actor: Actor): Promise<number> {
+    // Use 'as any' for Foundry dynamic API compatibility
+    const items = Array.from((actor as any).items ?? []) as any[];
+    const updates = items
+      .filter(item => item.type === 'spell')
+      .map(spell => {
+        const grantedBy = spell.getFlag?.('beyond-foundry', 'grantedBy') as GrantedSpellSource | undefined;
+        if (!grantedBy?.charges) return null;
+        // ItemParser keeps the item definition id, which DDB uses as componentId, in sourceId
+        const source = items.find(item => {
+          if (item.type === 'spell') return false;
+          const definitionId = item.getFlag?.('beyond-foundry', 'sourceId') ?? item.getFlag?.('beyond-foundry', 'ddbId');
+          return definitionId === grantedBy.componentId;
+        });
+        if (!source) return null;
+        const activities = spell.system?.activities as Record<string, FoundryActivity> | undefined;
+        if (!activities) return { _id: spell.id, 'system.consume.target': source.id };
+        // dnd5e 4.x keeps the target on each activity's item-uses consumption
+        const update: Record<string, unknown> = { _id: spell.id };
+        Object.values(activities).forEach(activity => {
+          update[`system.activities.${activity._id}.consumption.targets`] = activity.consumption.targets.map(target =>
+            target.type === 'itemUses' && !target.target ? { ...target, target: source.id } : target
+          );
+        });
+        return update;
+      })
+      .filter((update): update is Record<string, unknown> => update !== null);
+
+    if (updates.length > 0) {
+      await (actor as any).updateEmbeddedDocuments('Item', updates);
+      Logger.debug(`Linked ${updates.length} item spells to their item's charges`);
+    }
+    return updates.length;
+  }
+
+  /**
+   * Give charged items (wands, staves) on dnd5e 4.x a cast activity for each
+   * spell they cast, spending the charge cost DDB lists. The activity casts
+   * the item spell already embedded on the actor, so it is not added to the
+   * spellbook again.
+   * @internal Called by importCharacter; public for tests
+   */
+  public async addItemCastActivities(actor: Actor): Promise<number> {
+    // Use 'as any' for Foundry dynamic API compatibility
+    const items = Array.from((actor as any).items ?? []) as any[];
+    const updates = items
+      .filter(item => item.type !== 'spell' && item.system?.activities)
+      .map(item => {
+        const itemSpells = (item.getFlag?.('beyond-foundry', 'spells') ?? []) as ItemSpell[];
+        const definitionId = item.getFlag?.('beyond-foundry', 'sourceId') ?? item.getFlag?.('beyond-foundry', 'ddbId');
+        const update: Record<string, unknown> = { _id: item.id };
+        itemSpells.forEach((itemSpell, index) => {
+          const spell = items.find(entry =>
+            entry.type === 'spell' &&
+            entry.getFlag?.('beyond-foundry', 'ddbId') === itemSpell.ddbId &&
+            (entry.getFlag?.('beyond-foundry', 'grantedBy') as GrantedSpellSource | undefined)?.componentId === definitionId
+          );
+          if (!spell) return;
+          const activity = ActivityAdapter.castActivity(
+            { uuid: spell.uuid, name: itemSpell.name, level: itemSpell.level, spellbook: false },
+            [{ type: 'itemUses', target: '', value: String(itemSpell.charges), scaling: { mode: itemSpell.scale ? 'amount' : '', formula: '' } }],
+            index
+          );
+          update[`system.activities.${activity._id}`] = activity;
+        });
+        return update;
+      })
+      .filter(update => Object.keys(update).length > 1);
+
+    if (updates.length > 0) {
+      await (actor as any).updateEmbeddedDocuments('Item', updates);
+      Logger.debug(`Added cast activities to ${updates.length} charged items`);
+    }
+    return updates.length;
+  }
+
+  /**
+   * Point spells with consumed material components at a matching inventory item
+   * @internal Called by importCharacter; public for tests
+   */
+  public async linkMaterialComponents(actor: Actor): Promise<number> {
+    const { SpellParser } = await import('../../parsers/spells/SpellParser.js');
+    // Use 'as any' for Foundry dynamic API compatibility
+    const items = Array.from((actor as any).items ?? []) as any[];
+    const inventory = items.filter(item => ['loot', 'consumable'].includes(item.type));
+    const updates = items
+      .filter(item => item.type === 'spell' && item.system?.materials?.consumed)
+      .map(spell => {
+        const materials = String(spell.system.materials.value ?? '');
+        // The longest matching name wins, so "Diamond Dust" beats "Diamond"
+        const material = inventory
+          .filter(item => SpellParser.matchesMaterial(materials, item.name ?? ''))
+          .sort((a, b) => (b.name?.length ?? 0) - (a.name?.length ?? 0))[0];
+        if (!material) return null;
+        const activities = spell.system?.activities as Record<string, FoundryActivity> | undefined;
+        if (!activities) {
+          // Legacy spells have a single consume target; keep one that is already set (item charges)
+          if (spell.system?.consume?.type) return null;
+          return { _id: spell.id, 'system.consume': { type: 'material', target: material.id, amount: 1, scale: false } };
+        }
+        const update: Record<string, unknown> = { _id: spell.id };
+        Object.values(activities).forEach(activity => {
+          if (activity.consumption.targets.some(target => target.type === 'material')) return;
+          update[`system.activities.${activity._id}.consumption.targets`] = [
+            ...activity.consumption.targets,
+            { type: 'material', target: material.id, value: '1', scaling: { mode: '', formula: '' } },
+          ];
+        });
+        return update;
+      })
+      .filter((update): update is Record<string, unknown> => update !== null && Object.keys(update).length > 1);
+
+    if (updates.length > 0) {
+      await (actor as any).updateEmbeddedDocuments('Item', updates);
+      Logger.debug(`Linked ${updates.length} spells to their material components`);
+    }
+    return updates.length;
+  }
+
   /**
    * Add inventory items to actor, linking to compendium if available
+   * @internal Called by importCharacter; public for tests
    */
-  private async addItemsToActor(
+  public async addItemsToActor(
     actor: Actor,
     ddbItems: DDBItem[],
-    options: Partial<ImportOptions>
+    options: Partial<ImportOptions>,
+    ddbCharacter?: DDBCharacter
   ): Promise<number> {
     const compendiumName = options.itemCompendiumName || 'beyondfoundry.items';
     const { ItemParser } = await import('../../parsers/items/ItemParser.js');
@@ -377,18 +540,31 @@ export class BeyondFoundryAPI {
           const doc = await pack.getDocument(compendiumId);
           compendiumEntry = doc as { name?: string; id?: string; type?: string };
         }
+        // Scrolls missing from the character's item spells name their spell instead
+        const scrollSpell = ItemParser.getScrollSpell(ddbItem, ddbCharacter)
+          ? null
+          : await this.getCompendiumSpellByName(ItemParser.getScrollSpellName(ddbItem), options);
+        const parsedItem = scrollSpell
+          ? ItemParser.parseInventoryScroll(ddbItem, scrollSpell, ddbCharacter)
+          : ItemParser.parseItem(ddbItem, ddbCharacter);
+        if (!parsedItem) continue;
+        const foundryItem = ActivityAdapter.adapt(parsedItem, options.itemDataModel);
         if (compendiumEntry && compendiumEntry.name && compendiumEntry.id) {
+          // Only the reference comes from the compendium: the parsed system keeps
+          // equipped, attuned, quantity and charges, and dnd5e only applies the
+          // item's effects (its transferred modifiers) while it is equipped
           await actor.createEmbeddedDocuments('Item', [{
+            ...foundryItem,
             name: compendiumEntry.name,
-            type: compendiumEntry.type || 'loot',
-            flags: { 'beyond-foundry': { ddbId: ddbItem.definition.id, compendiumId: compendiumEntry.id } },
+            flags: {
+              ...foundryItem.flags,
+              'beyond-foundry': { ...(foundryItem.flags['beyond-foundry'] as Record<string, unknown>), compendiumId: compendiumEntry.id },
+            },
             compendium: compendiumName,
             _id: compendiumEntry.id
           }]);
           Logger.debug(`Linked item from compendium: ${compendiumEntry.name}`);
         } else {
-          const foundryItem = ItemParser.parseItem(ddbItem);
-          if (!foundryItem) continue;
           await Item.create(foundryItem, { parent: actor });
           Logger.debug(`Embedded item: ${foundryItem.name}`);
         }
@@ -401,8 +577,9 @@ export class BeyondFoundryAPI {
   }
 
   /**
-   * Import character spells into FoundryVTT actor
-   * Enhanced implementation using ddb-proxy patterns
+   * Import the class spells the character payload does not carry. Known and
+   * prepared spells are already embedded from classSpells, so this adds
+   * always-prepared spells and, in spellbook mode, the full class list.
    */
   public async importCharacterSpells(
     actor: Actor,
@@ -421,7 +598,7 @@ export class BeyondFoundryAPI {
       // Get cobalt token from settings
       const settings = getModuleSettings();
       if (!settings.cobaltToken) {
-        warnings.push('No cobalt token configured - cannot fetch spells from D&D Beyond');
+        warnings.push('No cobalt token configured - cannot fetch always-prepared spells from D&D Beyond');
         return { success: true, warnings };
       }
 
@@ -437,49 +614,20 @@ export class BeyondFoundryAPI {
         }
 
         try {
-          // Calculate spell level access for this class
-          const spellLevelAccess = this.calculateSpellLevelAccess(classInfo);
-          
-          if (spellLevelAccess === 0) {
-            Logger.debug(`Class ${classInfo.definition?.name} has no spell access yet`);
-            continue;
-          }
-
-          // Prepare class info for spell fetching
-          interface SpellFetchClassInfo {
-            id: number;
-            name: string;
-            level: number;
-            spellLevelAccess: number;
-            campaignId?: number;
-            backgroundId?: number;
-          }
-          const fetchClassInfo: SpellFetchClassInfo = {
-            id: classInfo.definition?.id || 0,
-            name: classInfo.definition?.name || 'Unknown',
-            level: classInfo.level || 1,
-            spellLevelAccess
-          };
-          if (typeof ddbCharacter.campaignId === 'number') fetchClassInfo.campaignId = ddbCharacter.campaignId;
-          if (typeof ddbCharacter.background?.definition?.id === 'number') fetchClassInfo.backgroundId = ddbCharacter.background.definition.id;
-
-          Logger.debug(`Fetching spells for ${fetchClassInfo.name} (Level ${fetchClassInfo.level}, Spell Level Access: ${spellLevelAccess})`);
-
-          // Fetch spells for this class
-          const classSpells = await this.fetchCharacterSpells(
-            ddbCharacter.id,
+          const { alwaysPrepared, spellbook } = await this.fetchAdditionalClassSpells(
+            ddbCharacter,
+            classInfo,
             settings.cobaltToken,
-            fetchClassInfo
+            options
           );
-
-          if (classSpells.length > 0) {
-            // Parse and add spells to actor
-            const importedCount = await this.addSpellsToActor(actor, classSpells, options);
+          const spells = [...alwaysPrepared, ...spellbook];
+          if (spells.length > 0) {
+            const spellcasting = SpellcastingCalculator.forClass(ddbCharacter, classInfo);
+            const importedCount = await this.addSpellsToActor(actor, spells, options, spellcasting);
             totalSpellsImported += importedCount;
-            
-            Logger.info(`✅ Imported ${importedCount} spells from ${fetchClassInfo.name}`);
-          }
 
+            Logger.info(`✅ Imported ${importedCount} additional spells from ${classInfo.definition?.name}`);
+          }
         } catch (classError) {
           const errorMsg = `Failed to import spells for class ${classInfo.definition?.name}: ${getErrorMessage(classError)}`;
           Logger.error(errorMsg);
@@ -488,9 +636,7 @@ export class BeyondFoundryAPI {
       }
 
       if (totalSpellsImported > 0) {
-        Logger.info(`🎉 Successfully imported ${totalSpellsImported} total spells`);
-      } else {
-        warnings.push('No spells were imported - character may not have any spells or fetching failed');
+        Logger.info(`🎉 Successfully imported ${totalSpellsImported} additional spells`);
       }
 
       return { 
@@ -508,6 +654,59 @@ export class BeyondFoundryAPI {
     }
   }
 
+  /**
+   * Class spells missing from the character's classSpells: always-prepared
+   * domain and oath spells, plus the whole class list for prepared casters
+   * when spellbook mode is on. Spells the character already has are skipped.
+   */
+  public async fetchAdditionalClassSpells(
+    ddbCharacter: DDBCharacter,
+    classInfo: DDBClass,
+    cobaltToken: string,
+    options: Partial<ImportOptions> = {}
+  ): Promise<{ alwaysPrepared: DDBSpell[]; spellbook: DDBSpell[] }> {
+    const spellLevelAccess = this.calculateSpellLevelAccess(classInfo);
+    if (spellLevelAccess === 0) {
+      Logger.debug(`Class ${classInfo.definition?.name} has no spell access yet`);
+      return { alwaysPrepared: [], spellbook: [] };
+    }
+
+    const fetchClassInfo: { id: number; name: string; level: number; spellLevelAccess: number; campaignId?: number; backgroundId?: number } = {
+      id: classInfo.definition?.id || 0,
+      name: classInfo.definition?.name || 'Unknown',
+      level: classInfo.level || 1,
+      spellLevelAccess
+    };
+    if (typeof ddbCharacter.campaignId === 'number') fetchClassInfo.campaignId = ddbCharacter.campaignId;
+    if (typeof ddbCharacter.background?.definition?.id === 'number') fetchClassInfo.backgroundId = ddbCharacter.background.definition.id;
+
+    // Spells the character payload already embeds: known and prepared ones, and
+    // those class features grant
+    const known = new Set([
+      ...(ddbCharacter.classSpells ?? [])
+        .filter(entry => entry.characterClassId === classInfo.id)
+        .flatMap(entry => (entry.spells ?? []).map(spell => spell.definition?.id)),
+      ...(ddbCharacter.spells?.class ?? []).map(spell => spell.definition?.id),
+    ]);
+    const spellListIds = [...(classInfo.classFeatures ?? []), ...(classInfo.subclassDefinition?.classFeatures ?? [])]
+      .flatMap(feature => feature.definition?.spellListIds ?? []);
+
+    const alwaysPrepared = (await this.extractAlwaysPreparedSpells(fetchClassInfo, spellListIds))
+      .filter(spell => !known.has(spell.definition.id))
+      .map(spell => ({ ...spell, alwaysPrepared: true, prepared: true }));
+    alwaysPrepared.forEach(spell => known.add(spell.definition.id));
+
+    let spellbook: DDBSpell[] = [];
+    if (options.spellbookMode && SpellcastingCalculator.isPreparedCaster(classInfo)) {
+      Logger.debug(`Spellbook mode: fetching the full ${fetchClassInfo.name} spell list`);
+      spellbook = (await this.fetchCharacterSpells(ddbCharacter.id, cobaltToken, fetchClassInfo))
+        .filter(spell => !known.has(spell.definition.id))
+        .map(spell => ({ ...spell, prepared: false }));
+    }
+
+    return { alwaysPrepared, spellbook };
+  }
+
   /**
    * Fetch character spells from ddb-proxy
    * Implements the spell extraction patterns from ddb-proxy spells.js
@@ -850,6 +1049,17 @@ export class BeyondFoundryAPI {
     return 0;
   }
 
+  /**
+   * Spell scroll item data for a D&D Beyond spell, ready for Item.create
+   * @param ddbSpell - The D&D Beyond spell to inscribe
+   * @param options - itemDataModel picks legacy or dnd5e 4.x activity data
+   */
+  public async createSpellScroll(ddbSpell: DDBSpell, options: Partial<ImportOptions> = {}): Promise<FoundryItemData> {
+    const { SpellParser } = await import('../../parsers/spells/SpellParser.js');
+    const { ItemParser } = await import('../../parsers/items/ItemParser.js');
+    return ActivityAdapter.adapt(ItemParser.parseSpellScroll(SpellParser.parseSpell(ddbSpell)), options.itemDataModel);
+  }
+
   /**
    * Bulk import all D&D Beyond spells into a FoundryVTT compendium
    * @param cobaltToken - D&D Beyond session token
@@ -897,7 +1107,7 @@ export class BeyondFoundryAPI {
 
       let imported = 0;
       for (const ddbSpell of spells) {
-        const foundrySpell: FoundrySpell = SpellParser.parseSpell(ddbSpell);
+        const foundrySpell: FoundrySpell = ActivityAdapter.adapt(SpellParser.parseSpell(ddbSpell));
         const existingId = index[ddbSpell.definition.id];
         if (existingId) {
           if (typeof pack.updateEntity === 'function') {
@@ -970,8 +1180,9 @@ export class BeyondFoundryAPI {
 
       let imported = 0;
       for (const ddbItem of items) {
-        const foundryItem = await ItemParser.parseItem(ddbItem);
-        if (!foundryItem) continue;
+        const parsedItem = await ItemParser.parseItem(ddbItem);
+        if (!parsedItem) continue;
+        const foundryItem = ActivityAdapter.adapt(parsedItem);
         const existingId = index[ddbItem.id];
         if (existingId) {
           if (typeof pack.updateEntity === 'function') {
@@ -1001,25 +1212,13 @@ export class BeyondFoundryAPI {
   private async addSpellsToActor(
     actor: Actor,
     spells: DDBSpell[],
-    options: Partial<ImportOptions>
+    options: Partial<ImportOptions>,
+    spellcasting: ClassSpellcasting | null = null
   ): Promise<number> {
     try {
       const { SpellParser } = await import('../../parsers/spells/SpellParser.js');
       let importedCount = 0;
-      const compendiumName = options.spellCompendiumName || 'beyondfoundry.spells';
-      // Use 'as any' for Foundry dynamic API compatibility
-      const packs = (game as any).packs as any;
-      const pack = packs.get(compendiumName) as any;
-      const compendiumIndex: { [ddbId: number]: string } = {};
-      if (pack) {
-        await pack.getIndex();
-        for (const entry of pack.index) {
-          if (!entry._id) continue;
-          const doc = await pack.getDocument(entry._id);
-          const ddbId = (doc as any)?.getFlag?.('beyond-foundry', 'ddbId');
-          if (typeof ddbId === 'number') compendiumIndex[ddbId] = entry._id;
-        }
-      }
+      const { compendiumName, pack, compendiumIndex } = await this.getSpellCompendiumIndex(options);
       for (const ddbSpell of spells) {
         try {
           let compendiumEntry: { name?: string; id?: string } | null = null;
@@ -1038,7 +1237,10 @@ export class BeyondFoundryAPI {
             }]);
             Logger.debug(`Linked spell from compendium: ${compendiumEntry.name}`);
           } else {
-            const foundrySpell: FoundrySpell = SpellParser.parseSpell(ddbSpell);
+            const foundrySpell: FoundrySpell = ActivityAdapter.adapt(SpellParser.parseSpell(ddbSpell, {
+              spellcasting: spellcasting ?? undefined,
+              preparationMode: SpellParser.getClassPreparationMode(ddbSpell, spellcasting),
+            }), options.itemDataModel);
             const existingSpell = actor.items.find(
               (item: unknown) => {
                 // Type assertion for Foundry ItemDocument
@@ -1055,7 +1257,7 @@ export class BeyondFoundryAPI {
                 ddbId: ddbSpell.id,
                 sourceId: ddbSpell.definition.id,
                 prepared: ddbSpell.prepared,
-                alwaysPrepared: false,
+                alwaysPrepared: ddbSpell.alwaysPrepared ?? false,
                 usesSpellSlot: ddbSpell.usesSpellSlot,
                 castAtLevel: ddbSpell.castAtLevel || null,
                 restriction: null
@@ -1081,6 +1283,92 @@ export class BeyondFoundryAPI {
     }
   }
 
+  /**
+   * The configured spell compendium and its entries keyed by DDB spell id
+   */
+  private async getSpellCompendiumIndex(
+    options: Partial<ImportOptions>
+  ): Promise<{ compendiumName: string; pack: any; compendiumIndex: { [ddbId: number]: string } }> {
+    const compendiumName = options.spellCompendiumName || 'beyondfoundry.spells';
+    // Use 'as any' for Foundry dynamic API compatibility
+    const packs = (game as any).packs as any;
+    const pack = packs.get(compendiumName) as any;
+    const compendiumIndex: { [ddbId: number]: string } = {};
+    if (pack) {
+      await pack.getIndex();
+      for (const entry of pack.index) {
+        if (!entry._id) continue;
+        const doc = await pack.getDocument(entry._id);
+        const ddbId = (doc as any)?.getFlag?.('beyond-foundry', 'ddbId');
+        if (typeof ddbId === 'number') compendiumIndex[ddbId] = entry._id;
+      }
+    }
+    return { compendiumName, pack, compendiumIndex };
+  }
+
+  /**
+   * A spell from the spell compendium by name, for spell scrolls that only
+   * name the spell they hold
+   */
+  private async getCompendiumSpellByName(name: string | null, options: Partial<ImportOptions>): Promise<FoundrySpell | null> {
+    if (!name) return null;
+    // Use 'as any' for Foundry dynamic API compatibility
+    const pack = (game as any).packs?.get(options.spellCompendiumName || 'beyondfoundry.spells') as any;
+    if (!pack) return null;
+    await pack.getIndex();
+    const entry = Array.from(pack.index as Iterable<{ _id?: string; name?: string }>)
+      .find(indexEntry => indexEntry.name?.toLowerCase() === name.toLowerCase());
+    if (!entry?._id) return null;
+    const doc = await pack.getDocument(entry._id);
+    return (doc?.toObject?.() ?? null) as FoundrySpell | null;
+  }
+
+  /**
+   * Spells parsed from classSpells and class features, as opposed to race,
+   * feat, item and background spells
+   */
+  private isClassSpell(item: FoundryItemData): boolean {
+    return item.type === 'spell' && !(item.flags?.['beyond-foundry'] as Record<string, unknown> | undefined)?.grantedBy;
+  }
+
+  /**
+   * Embed class spells parsed from the character, linking each to the spell
+   * compendium when it has an entry there. Linked spells keep the
+   * preparation and spellcasting ability the character casts them with.
+   * @internal Called by importCharacter; public for tests
+   */
+  public async addClassSpellsToActor(
+    actor: Actor,
+    spells: FoundryItemData[],
+    options: Partial<ImportOptions>
+  ): Promise<number> {
+    const { compendiumName, pack, compendiumIndex } = await this.getSpellCompendiumIndex(options);
+    const items: Record<string, unknown>[] = [];
+    for (const spell of spells) {
+      const flags = (spell.flags?.['beyond-foundry'] ?? {}) as Record<string, unknown>;
+      const compendiumId = pack && typeof flags.ddbId === 'number' ? compendiumIndex[flags.ddbId] : undefined;
+      const compendiumEntry = compendiumId ? (await pack.getDocument(compendiumId)) as { name?: string; id?: string } : null;
+      if (compendiumEntry?.name && compendiumEntry.id) {
+        items.push({
+          name: compendiumEntry.name,
+          type: 'spell',
+          system: {
+            preparation: spell.system.preparation,
+            ...(spell.system.ability !== undefined && { ability: spell.system.ability }),
+          },
+          flags: { 'beyond-foundry': { ...flags, compendiumId: compendiumEntry.id } },
+          compendium: compendiumName,
+          _id: compendiumEntry.id,
+        });
+        Logger.debug(`Linked spell from compendium: ${compendiumEntry.name}`);
+      } else {
+        items.push(spell as unknown as Record<string, unknown>);
+      }
+    }
+    if (items.length > 0) await actor.createEmbeddedDocuments('Item', items);
+    return items.length;
+  }
+
   /**
    * Import a class from D&D Beyond to FoundryVTT
    * @param classId - The D&D Beyond class ID
@@ -26,8 +26,11 @@ import type {
 import { BeyondFoundryAPI } from './BeyondFoundryAPI.js';
 import { CharacterParser } from '../../parsers/character/CharacterParser.js';
 import { ItemParser } from '../../parsers/items/ItemParser.js';
+import { EncumbranceCalculator } from '../../parsers/character/EncumbranceCalculator.js';
 import { FeatureParser } from '../../parsers/features/FeatureParser.js';
 import { SpellParser } from '../../parsers/spells/SpellParser.js';
+import { SpellSlotCalculator } from '../../parsers/spells/SpellSlotCalculator.js';
+import { SpellcastingCalculator } from '../../parsers/spells/SpellcastingCalculator.js';
 import { Logger, getErrorMessage } from '../utils/logger.js';
 
 /**
@@ -136,6 +139,7 @@ export class RouteHandler {
             // Spread any additional data fields if present
             ...Object.fromEntries(Object.entries(item).filter(([k]) => !['toObject'].includes(k)))
           })) as FoundryItemData[]),
+          encumbrance: EncumbranceCalculator.calculate(ddbCharacter),
           summary: {
             totalItems: items.length,
             equipped: items.filter(item => item.system?.equipped).length,
@@ -237,25 +241,22 @@ export class RouteHandler {
         };
       }
 
-      // Use the existing spell fetching functionality
-      const spells: DDBSpell[] = [];
+      // Known and prepared spells come from the character; always-prepared
+      // domain and oath spells are fetched per class when a token is set
+      const spells: FoundrySpell[] = [
+        ...SpellParser.parseClassSpells(ddbCharacter),
+        ...SpellParser.parseGrantedSpells(ddbCharacter),
+      ];
       const spellsByLevel: Record<number, FoundrySpell[]> = {};
+      const cobaltToken = game.settings.get('beyond-foundry', 'cobaltToken');
 
-      if (ddbCharacter.classes) {
+      if (ddbCharacter.classes && cobaltToken) {
         for (const classInfo of ddbCharacter.classes) {
           if (this.api.isSpellcastingClass(classInfo)) {
             try {
-              const classSpells = await this.api.fetchCharacterSpells(
-                ddbCharacter.id,
-                game.settings.get('beyond-foundry', 'cobaltToken'),
-                {
-                  id: classInfo.definition?.id || 0,
-                  name: classInfo.definition?.name || 'Unknown',
-                  level: classInfo.level || 1,
-                  spellLevelAccess: this.api.calculateSpellLevelAccess(classInfo)
-                }
-              );
-              spells.push(...classSpells);
+              const { alwaysPrepared } = await this.api.fetchAdditionalClassSpells(ddbCharacter, classInfo, cobaltToken);
+              const spellcasting = SpellcastingCalculator.forClass(ddbCharacter, classInfo) ?? undefined;
+              spells.push(...alwaysPrepared.map(spell => SpellParser.parseSpell(spell, { spellcasting, preparationMode: 'always' })));
             } catch (error) {
               Logger.warn(`Failed to fetch spells for class ${classInfo.definition?.name}: ${getErrorMessage(error)}`);
             }
@@ -263,9 +264,7 @@ export class RouteHandler {
         }
       }
 
-      // Group spells by level using SpellParser
-      for (const spell of spells) {
-        const foundrySpell = SpellParser.parseSpell(spell);
+      for (const foundrySpell of spells) {
         const level = foundrySpell.system.level || 0;
         if (!spellsByLevel[level]) spellsByLevel[level] = [];
         spellsByLevel[level].push(foundrySpell);
@@ -276,12 +275,13 @@ export class RouteHandler {
         endpoint: '/import/character/spells',
         characterId,
         data: {
-          spells: spells.map(spell => SpellParser.parseSpell(spell)),
+          spells,
           spellsByLevel,
+          slots: SpellSlotCalculator.calculate(ddbCharacter),
           summary: {
             totalSpells: spells.length,
-            preparedSpells: spells.filter(s => s.prepared).length,
-            knownSpells: spells.filter(s => !s.prepared).length,
+            preparedSpells: spells.filter(s => s.system.preparation?.prepared).length,
+            knownSpells: spells.filter(s => !s.system.preparation?.prepared).length,
             cantrips: spellsByLevel[0]?.length || 0,
             highestLevel: Object.keys(spellsByLevel).length > 0 ? Math.max(...Object.keys(spellsByLevel).map(Number)) : 0
           }
@@ -331,9 +331,9 @@ export class RouteHandler {
             backpack: items.filter(item => !item.system?.equipped && item.type !== 'container'),
             containers: items.filter(item => item.type === 'container')
           },
-          encumbrance: this.calculateEncumbrance(items),
+          encumbrance: itemsResult.data?.encumbrance,
           summary: {
-            totalWeight: items.reduce((sum, item) => sum + (item.system?.weight || 0) * (item.system?.quantity || 1), 0),
+            totalWeight: itemsResult.data?.encumbrance?.current ?? 0,
             totalValue: items.reduce((sum, item) => sum + (item.system?.price?.value || 0) * (item.system?.quantity || 1), 0)
           }
         }
@@ -664,19 +664,6 @@ export class RouteHandler {
     };
   }
 
-  private calculateEncumbrance(items: any[]): any {
-    const totalWeight = items.reduce((sum, item) => 
-      sum + (item.system?.weight || 0) * (item.system?.quantity || 1), 0
-    );
-    
-    // TODO: Calculate based on character strength
-    return {
-      current: totalWeight,
-      max: 150, // Placeholder - should be calculated from character stats
-      encumbered: totalWeight > 150
-    };
-  }
-
   private async parseCharacterActions(character: DDBCharacter): Promise<any[]> {
     const actions = [];
     
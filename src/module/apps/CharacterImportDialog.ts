@@ -285,6 +285,8 @@ export class CharacterImportDialog extends Application {
       (this.element.find('#import-items')[0] as HTMLInputElement)?.checked ?? true;
     const updateExisting =
       (this.element.find('#update-existing')[0] as HTMLInputElement)?.checked ?? false;
+    const spellbookMode =
+      (this.element.find('#spellbook-mode')[0] as HTMLInputElement)?.checked ?? false;
     const spellPreparationMode =
       (this.element.find('#spell-preparation-mode')[0] as HTMLSelectElement)?.value ?? 'prepared';
 
@@ -292,6 +294,7 @@ export class CharacterImportDialog extends Application {
       importSpells,
       importItems,
       updateExisting,
+      spellbookMode,
       spellPreparationMode: spellPreparationMode as 'prepared' | 'pact' | 'always' | 'atwill' | 'innate',
       createCompendiumItems: false, // Default to false for now
     };
@@ -1,18 +1,55 @@
 // BackgroundParser.ts
-// Stub for BackgroundParser
 
-import type { DDBBackground } from '../types/index.js';
+import type { DDBBackground, DDBCharacter, FoundryItemData } from '../types/index.js';
+import { ModifierResolver, type SourcedModifier } from './character/ModifierResolver.js';
+import { AdvancementBuilder, type Advancement } from './advancement/AdvancementBuilder.js';
 
 export class BackgroundParser {
   /**
-   * Parse a D&D Beyond background into FoundryVTT background data
+   * Background item for a character, with the grants from its background modifiers
+   */
+  public static parseCharacterBackground(ddbCharacter: DDBCharacter): FoundryItemData | null {
+    const definition = ddbCharacter.background?.definition;
+    if (!definition?.name) return null;
+    const modifiers = ModifierResolver.resolve(ddbCharacter).modifiers.filter(modifier => modifier.source === 'background');
+    return this.parseBackground(definition, modifiers);
+  }
+
+  /**
+   * Parse a D&D Beyond background into a dnd5e background item
    * @param ddbBackground - The D&D Beyond background data
-   * @returns Parsed FoundryVTT background data (TODO)
+   * @param modifiers - Modifiers granted by the background (skills, tools, languages)
+   * @returns Parsed FoundryVTT background item
    */
-  public static parseBackground(_ddbBackground: DDBBackground): unknown {
-    void _ddbBackground;
-    // TODO: Implement background parsing logic
-    throw new Error('BackgroundParser.parseBackground not implemented');
+  public static parseBackground(ddbBackground: DDBBackground, modifiers: SourcedModifier[] = []): FoundryItemData {
+    if (!ddbBackground?.name) throw new Error('Invalid DDBBackground input');
+    const advancement: Advancement[] = [];
+    const traits = AdvancementBuilder.trait(
+      'Background Proficiencies',
+      AdvancementBuilder.getTraitGrants(modifiers),
+      0,
+      AdvancementBuilder.getLanguageChoices(modifiers)
+    );
+    if (traits) advancement.push(traits);
+
+    return {
+      name: ddbBackground.name,
+      type: 'background',
+      img: ddbBackground.avatarUrl ?? '',
+      system: {
+        description: {
+          value: this.parseDescription(ddbBackground),
+        },
+        identifier: ddbBackground.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+        advancement,
+      },
+      flags: {
+        'beyond-foundry': {
+          ddbId: ddbBackground.id,
+          featureName: ddbBackground.featureName ?? '',
+        },
+      },
+    };
   }
 
   /**
@@ -49,4 +86,13 @@ export class BackgroundParser {
     // TODO: Implement additional system fields for advanced background support
     return {};
   }
+
+  /**
+   * Background description followed by its feature, which dnd5e has no separate field for
+   */
+  private static parseDescription(ddbBackground: DDBBackground): string {
+    const description = ddbBackground.description ?? '';
+    if (!ddbBackground.featureName) return description;
+    return `${description}<h3>${ddbBackground.featureName}</h3>${ddbBackground.featureDescription ?? ''}`;
+  }
 }
@@ -1,31 +1,63 @@
 // ClassParser.ts
-// Stub for ClassParser
 
-import type { DDBClass } from '../types/index.js';
+import type { ClassSpellcasting, DDBCharacter, DDBClass, FoundryItemData } from '../types/index.js';
+import { SpellSlotCalculator } from './spells/SpellSlotCalculator.js';
+import { SpellcastingCalculator } from './spells/SpellcastingCalculator.js';
+import { AdvancementBuilder } from './advancement/AdvancementBuilder.js';
 
 export class ClassParser {
+  /**
+   * Class and subclass items for every class on a character. The starting
+   * class is the one DDB marks with isStartingClass, or the first class.
+   */
+  public static parseCharacterClasses(ddbCharacter: DDBCharacter): FoundryItemData[] {
+    const classes = (ddbCharacter.classes ?? []).filter(ddbClass => ddbClass.definition);
+    const startingClass = classes.find(ddbClass => ddbClass.isStartingClass) ?? classes[0];
+
+    return classes.flatMap(ddbClass => {
+      const spellcasting = SpellcastingCalculator.forClass(ddbCharacter, ddbClass);
+      const subclass = this.parseSubclass(ddbClass, spellcasting);
+      const foundryClass = this.parseClass(ddbClass, spellcasting, { isStartingClass: ddbClass === startingClass });
+      return subclass ? [foundryClass, subclass] : [foundryClass];
+    });
+  }
+
   /**
    * Parse a D&D Beyond class into FoundryVTT class data (full schema mapping)
    * @param ddbClass - The D&D Beyond class data
+   * @param spellcasting - The class's computed spellcasting, when it casts spells
+   * @param options.isStartingClass - Whether the character took its 1st level in this class
    * @returns Parsed FoundryVTT class data
    */
-  public static parseClass(ddbClass: DDBClass): Record<string, unknown> {
+  public static parseClass(
+    ddbClass: DDBClass,
+    spellcasting: ClassSpellcasting | null = null,
+    options: { isStartingClass?: boolean } = {}
+  ): FoundryItemData {
     if (!ddbClass || !ddbClass.definition) throw new Error('Invalid DDBClass input');
+    const isStartingClass = options.isStartingClass ?? ddbClass.isStartingClass ?? false;
+    // Third casters get spellcasting from their subclass, so it lives on the subclass item
+    const classSpellcasting = this.isSubclassSpellcasting(ddbClass) ? null : spellcasting;
+
     // Map DDBClass fields to FoundryVTT class item schema
-    const foundryClass: Record<string, unknown> = {
+    const foundryClass: FoundryItemData = {
       name: ddbClass.definition.name,
       type: 'class',
-      img: '', // TODO: Add class icon if available from DDB
+      img: ddbClass.definition.avatarUrl ?? '',
       system: {
         description: {
-          value: '', // TODO: DDB does not provide a full class description directly
+          value: ddbClass.definition.description ?? '',
         },
         source: '', // TODO: Fill from DDB if available
-        identifier: '', // TODO: Fill from DDB if available
-        hitDice: ddbClass.definition.hitDie,
+        identifier: this.getIdentifier(ddbClass.definition.name),
+        hitDice: `d${ddbClass.definition.hitDie}`,
+        hitDiceUsed: Math.min(ddbClass.hitDiceUsed ?? 0, ddbClass.level),
         levels: ddbClass.level,
-        advancement: [], // TODO: Advanced progression, fill if available
-        spellcasting: {}, // TODO: Fill if spellcasting class (see ddbClass.definition.spellRules?)
+        advancement: [AdvancementBuilder.hitPoints(ddbClass.level, isStartingClass)],
+        spellcasting: {
+          progression: classSpellcasting?.progression ?? 'none',
+          ability: classSpellcasting?.ability ?? '',
+        },
         prerequisites: [], // TODO: Fill if available (e.g., ability score requirements)
         subclass: ddbClass.subclassDefinition?.name || '',
         features: (ddbClass.classFeatures || []).map(f => ({
@@ -42,6 +74,10 @@ export class ClassParser {
       flags: {
         'beyond-foundry': {
           ddbId: ddbClass.id,
+          definitionId: ddbClass.definition.id,
+          isStartingClass,
+          // DC and attack as shown on DDB, including bonuses dnd5e cannot scope to one class
+          ...(spellcasting && { spellcasting: { dc: spellcasting.dc, attack: spellcasting.attack } }),
         },
       },
       _id: undefined, // Let Foundry assign
@@ -50,6 +86,40 @@ export class ClassParser {
     return foundryClass;
   }
 
+  /**
+   * Parse the subclass of a D&D Beyond class into a dnd5e subclass item,
+   * linked to its class through classIdentifier
+   */
+  public static parseSubclass(ddbClass: DDBClass, spellcasting: ClassSpellcasting | null = null): FoundryItemData | null {
+    const subclass = ddbClass.subclassDefinition;
+    if (!subclass?.name || !ddbClass.definition) return null;
+    const subclassSpellcasting = this.isSubclassSpellcasting(ddbClass) ? spellcasting : null;
+
+    return {
+      name: subclass.name,
+      type: 'subclass',
+      img: subclass.avatarUrl ?? '',
+      system: {
+        description: {
+          value: subclass.description ?? '',
+        },
+        identifier: this.getIdentifier(subclass.name),
+        classIdentifier: this.getIdentifier(ddbClass.definition.name),
+        advancement: [],
+        spellcasting: {
+          progression: subclassSpellcasting?.progression ?? 'none',
+          ability: subclassSpellcasting?.ability ?? '',
+        },
+      },
+      flags: {
+        'beyond-foundry': {
+          ddbId: subclass.id,
+          classId: ddbClass.id,
+        },
+      },
+    };
+  }
+
   /**
    * Parse an array of classes (static interface)
    * TODO: Add support for batch class parsing and error aggregation
@@ -84,4 +154,20 @@ export class ClassParser {
     // TODO: Implement additional system fields for advanced class support
     return {};
   }
+
+  /**
+   * dnd5e identifier for a class or subclass name ("Eldritch Knight" -> "eldritch-knight")
+   */
+  private static getIdentifier(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  /**
+   * Whether the class only casts spells through its subclass (Eldritch Knight, Arcane Trickster)
+   */
+  private static isSubclassSpellcasting(ddbClass: DDBClass): boolean {
+    const withoutSubclass = { ...ddbClass, subclassDefinition: undefined };
+    return SpellSlotCalculator.getCasterProgression(withoutSubclass) === 'none'
+      && SpellSlotCalculator.getCasterProgression(ddbClass) !== 'none';
+  }
 }
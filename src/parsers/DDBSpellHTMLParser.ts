@@ -3,6 +3,8 @@
  * Based on analysis of spell.html structure
  */
 
+import { SpellParser } from './spells/SpellParser.js';
+
 export interface DDBSpellFromHTML {
   id: number;
   name: string;
@@ -10,6 +12,8 @@ export interface DDBSpellFromHTML {
   castingTime: string;
   isRitual: boolean;
   range: string;
+  /** Area shape from the range-area icon (i-aoe-cone), which the text omits */
+  areaOfEffect?: string | undefined;
   components: {
     verbal: boolean;
     somatic: boolean;
@@ -50,6 +54,7 @@ export class DDBSpellHTMLParser {
       const level = this.extractStatblockValue(statblock, 'level');
       const castingTime = this.extractStatblockValue(statblock, 'casting-time');
       const range = this.extractStatblockValue(statblock, 'range-area');
+      const areaOfEffect = this.extractAreaOfEffect(statblock);
       const duration = this.extractStatblockValue(statblock, 'duration');
       const school = this.extractStatblockValue(statblock, 'school');
       const attackSave = this.extractStatblockValue(statblock, 'attack-save');
@@ -81,6 +86,7 @@ export class DDBSpellHTMLParser {
         castingTime,
         isRitual,
         range,
+        areaOfEffect,
         components,
         duration,
         school,
@@ -131,6 +137,12 @@ export class DDBSpellHTMLParser {
     return value?.textContent?.trim() ?? '';
   }
 
+  private static extractAreaOfEffect(statblock: Element): string | undefined {
+    const icon = statblock.querySelector('.ddb-statblock-item-range-area [class*="i-aoe-"]');
+    const match = /i-aoe-([a-z]+)/.exec(icon?.getAttribute('class') ?? '');
+    return match?.[1];
+  }
+
   private static extractComponents(statblock: Element): DDBSpellFromHTML['components'] {
     const componentsItem = statblock.querySelector('.ddb-statblock-item-components');
     const componentsText = componentsItem?.querySelector('.ddb-statblock-item-value')?.textContent?.trim() ?? '';
@@ -230,12 +242,7 @@ export class DDBSpellHTMLParser {
           ritual: htmlSpell.isRitual,
           concentration: false // Would need additional parsing
         },
-        materials: {
-          value: htmlSpell.components.materialDescription ?? '',
-          consumed: false,
-          cost: 0,
-          supply: 0
-        },
+        materials: SpellParser.parseMaterialComponent(htmlSpell.components.materialDescription ?? ''),
         preparation: {
           mode: 'prepared',
           prepared: false
@@ -249,12 +256,7 @@ export class DDBSpellHTMLParser {
           long: null,
           units: this.parseRangeUnits(htmlSpell.range)
         },
-        target: {
-          value: null,
-          width: null,
-          units: '',
-          type: ''
-        },
+        target: this.parseTarget(htmlSpell),
         duration: {
           value: this.parseDuration(htmlSpell.duration),
           units: this.parseDurationUnits(htmlSpell.duration)
@@ -288,20 +290,40 @@ export class DDBSpellHTMLParser {
     return match?.[1] ? parseInt(match[1], 10) : 0;
   }
 
+  /**
+   * Range before any area in parentheses: "150 ft. (20 ft.)", "Self (15-foot cone)", "1 mile"
+   */
   private static parseRange(rangeText: string): number | null {
-    const rangeRegex = /(\d+)/;
-    const match = rangeRegex.exec(rangeText);
+    const rangeRegex = /^\s*(\d+)/;
+    const match = rangeRegex.exec(rangeText.split('(')[0] ?? '');
     return match?.[1] ? parseInt(match[1], 10) : null;
   }
 
   private static parseRangeUnits(rangeText: string): string {
-    if (rangeText.includes('ft')) return 'ft';
-    if (rangeText.includes('mi')) return 'mi';
-    if (rangeText.toLowerCase().includes('touch')) return 'touch';
-    if (rangeText.toLowerCase().includes('self')) return 'self';
+    const lower = (rangeText.split('(')[0] ?? '').toLowerCase();
+    if (lower.includes('self')) return 'self';
+    if (lower.includes('touch')) return 'touch';
+    if (lower.includes('sight')) return 'spec';
+    if (lower.includes('unlimited')) return 'any';
+    if (lower.includes('mi')) return 'mi';
     return 'ft';
   }
 
+  /**
+   * Template target from the area in parentheses, shaped by the range-area icon or the text
+   */
+  private static parseTarget(htmlSpell: DDBSpellFromHTML): Record<string, unknown> {
+    const areaRegex = /\((\d+)[- ]?(?:ft\.?|foot|feet)\s*([a-z]*)/i;
+    const match = areaRegex.exec(htmlSpell.range);
+    const area = SpellParser.parseAreaTarget(
+      htmlSpell.areaOfEffect ?? match?.[2],
+      match?.[1] ? parseInt(match[1], 10) : undefined,
+      this.parseRangeUnits(htmlSpell.range) === 'self',
+      htmlSpell.description
+    );
+    return area ?? { value: null, width: null, units: '', type: '' };
+  }
+
   private static parseDuration(durationText: string): number | null {
     const durationRegex = /(\d+)/;
     const match = durationRegex.exec(durationText);
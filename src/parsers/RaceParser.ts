@@ -1,18 +1,105 @@
 // RaceParser.ts
-// Stub for RaceParser
 
-import type { DDBRace } from '../types/index.js';
+import type { DDBCharacter, DDBRace, FoundryItemData } from '../types/index.js';
+import { ModifierResolver, MOVEMENT_TYPES, SENSE_TYPES, type SourcedModifier } from './character/ModifierResolver.js';
+import { AdvancementBuilder, type Advancement } from './advancement/AdvancementBuilder.js';
+
+const SIZES: Record<string, string> = {
+  tiny: 'tiny',
+  small: 'sm',
+  medium: 'med',
+  large: 'lg',
+  huge: 'huge',
+  gargantuan: 'grg',
+};
+
+/**
+ * DDB sizeId values, used when the race only carries the id
+ */
+const SIZE_IDS: Record<number, string> = {
+  2: 'tiny',
+  3: 'sm',
+  4: 'med',
+  5: 'lg',
+  6: 'huge',
+  7: 'grg',
+};
+
+/**
+ * Playable races that are not humanoids. Races with a "Creature Type" trait
+ * take the type from its text instead.
+ */
+const CREATURE_TYPES: Record<string, string> = {
+  autognome: 'construct',
+  centaur: 'fey',
+  changeling: 'fey',
+  fairy: 'fey',
+  hexblood: 'fey',
+  plasmoid: 'ooze',
+  reborn: 'undead',
+  satyr: 'fey',
+  warforged: 'construct',
+};
+
+const DND5E_CREATURE_TYPES = [
+  'aberration', 'beast', 'celestial', 'construct', 'dragon', 'elemental', 'fey',
+  'fiend', 'giant', 'humanoid', 'monstrosity', 'ooze', 'plant', 'undead',
+];
 
 export class RaceParser {
   /**
-   * Parse a D&D Beyond race into FoundryVTT race data
+   * Race item for a character, with the grants from its race modifiers
+   */
+  public static parseCharacterRace(ddbCharacter: DDBCharacter): FoundryItemData | null {
+    if (!ddbCharacter.race?.fullName) return null;
+    const modifiers = ModifierResolver.resolve(ddbCharacter).modifiers.filter(modifier => modifier.source === 'race');
+    return this.parseRace(ddbCharacter.race, modifiers);
+  }
+
+  /**
+   * Parse a D&D Beyond race into a dnd5e race item
    * @param ddbRace - The D&D Beyond race data
-   * @returns Parsed FoundryVTT race data (TODO)
+   * @param modifiers - Modifiers granted by the race (senses, proficiencies, languages)
+   * @returns Parsed FoundryVTT race item
    */
-  public static parseRace(_ddbRace: DDBRace): unknown {
-    void _ddbRace;
-    // TODO: Implement race parsing logic
-    throw new Error('RaceParser.parseRace not implemented');
+  public static parseRace(ddbRace: DDBRace, modifiers: SourcedModifier[] = []): FoundryItemData {
+    if (!ddbRace?.fullName) throw new Error('Invalid DDBRace input');
+    const size = this.getSize(ddbRace);
+    const advancement: Advancement[] = [AdvancementBuilder.size(size)];
+    const traits = AdvancementBuilder.trait(
+      'Racial Proficiencies',
+      AdvancementBuilder.getTraitGrants(modifiers),
+      0,
+      AdvancementBuilder.getLanguageChoices(modifiers)
+    );
+    if (traits) advancement.push(traits);
+
+    return {
+      name: ddbRace.fullName,
+      type: 'race',
+      img: ddbRace.avatarUrl ?? '',
+      system: {
+        description: {
+          value: ddbRace.description ?? '',
+        },
+        identifier: ddbRace.fullName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+        type: {
+          value: this.getCreatureType(ddbRace),
+          subtype: '',
+          custom: '',
+        },
+        movement: this.parseMovement(ddbRace, modifiers),
+        senses: this.parseSenses(modifiers),
+        advancement,
+      },
+      flags: {
+        'beyond-foundry': {
+          ddbId: ddbRace.entityRaceId ?? ddbRace.id,
+          baseRaceName: ddbRace.baseRaceName,
+          subRaceShortName: ddbRace.subRaceShortName ?? '',
+        },
+      },
+    };
   }
 
   /**
@@ -23,6 +110,15 @@ export class RaceParser {
     return races.map((race) => this.parseRace(race));
   }
 
+  /**
+   * dnd5e size key for a race, defaulting to medium
+   */
+  public static getSize(ddbRace: DDBRace | undefined): string {
+    const size = ddbRace?.size?.toLowerCase();
+    if (size && SIZES[size]) return SIZES[size];
+    return SIZE_IDS[ddbRace?.sizeId ?? 0] ?? 'med';
+  }
+
   /**
    * TODO: Parse homebrew and custom race flags
    */
@@ -49,4 +145,42 @@ export class RaceParser {
     // TODO: Implement additional system fields for advanced race support
     return {};
   }
+
+  /**
+   * Creature type from a "Creature Type" trait ("You are a Fey."), the race name, or humanoid
+   */
+  private static getCreatureType(ddbRace: DDBRace): string {
+    const trait = ddbRace.racialTraits?.find(racialTrait => /creature type/i.test(racialTrait.definition.name));
+    const described = trait?.definition.description.toLowerCase().match(/you are an? (\w+)/)?.[1];
+    if (described && DND5E_CREATURE_TYPES.includes(described)) return described;
+    return CREATURE_TYPES[ddbRace.baseRaceName?.toLowerCase() ?? ''] ?? 'humanoid';
+  }
+
+  /**
+   * Racial speeds; DDB puts innate fly and swim speeds in weightSpeeds too
+   */
+  private static parseMovement(ddbRace: DDBRace, modifiers: SourcedModifier[]): Record<string, unknown> {
+    const speeds = ddbRace.weightSpeeds?.normal ?? {};
+    const movement: Record<string, unknown> = {};
+    MOVEMENT_TYPES.forEach(type => {
+      movement[type] = speeds[type as keyof typeof speeds] ?? (type === 'walk' ? 30 : 0);
+    });
+    return {
+      ...movement,
+      units: 'ft',
+      hover: modifiers.some(modifier => modifier.subType === 'hover'),
+    };
+  }
+
+  private static parseSenses(modifiers: SourcedModifier[]): Record<string, unknown> {
+    const senses: Record<string, unknown> = {};
+    SENSE_TYPES.forEach(sense => {
+      senses[sense] = ModifierResolver.max(ModifierResolver.filterModifiers(modifiers, ['set-base', 'sense'], sense)) ?? 0;
+    });
+    return {
+      ...senses,
+      units: 'ft',
+      special: '',
+    };
+  }
 }
@@ -0,0 +1,411 @@
+import type {
+  FoundryActivity,
+  FoundryActivityType,
+  FoundryConsumptionTarget,
+  FoundryDamagePart,
+  ItemDataModel,
+} from '../../types/index.js';
+
+/**
+ * Item system data in the dnd5e 3.x shape the parsers emit
+ */
+interface LegacySystem {
+  activation?: { type?: string; cost?: number | null; condition?: string };
+  duration?: { value?: number | string | null; units?: string };
+  target?: { value?: number | string | null; width?: number | null; height?: number | null; units?: string; type?: string };
+  range?: { value?: number | null; long?: number | null; units?: string };
+  uses?: { value?: number | null; max?: number | string | null; per?: string | null; recovery?: string; [key: string]: unknown };
+  consume?: { type?: string; target?: string | null; amount?: number | null; scale?: boolean };
+  ability?: string | null;
+  actionType?: string;
+  attackBonus?: string;
+  attack?: { bonus?: string; flat?: boolean };
+  chatFlavor?: string;
+  description?: { value?: string };
+  critical?: { threshold?: number | null; damage?: string };
+  damage?: { parts?: Array<[string, string]>; versatile?: string };
+  formula?: string;
+  save?: { ability?: string; dc?: number | null; scaling?: string };
+  scaling?: { mode?: string; formula?: string };
+  recharge?: { value?: number | null; charged?: boolean };
+  preparation?: { mode?: string };
+  level?: number;
+  components?: { concentration?: boolean };
+  properties?: string[];
+  activities?: Record<string, FoundryActivity>;
+  [key: string]: unknown;
+}
+
+interface AdaptableItem {
+  type: string;
+  system?: unknown;
+  effects?: unknown[];
+}
+
+interface AdaptableEffect {
+  _id?: string;
+  transfer?: boolean;
+}
+
+const ATTACK_TYPES = ['mwak', 'rwak', 'msak', 'rsak'];
+
+const TEMPLATE_TYPES = ['cone', 'cube', 'cylinder', 'line', 'radius', 'sphere', 'square', 'wall'];
+
+const RECOVERY_PERIODS = ['sr', 'lr', 'day', 'dawn', 'dusk'];
+
+const HEALING_TYPES = ['healing', 'temphp'];
+
+/**
+ * Descriptions of saves that still deal damage ("or half as much damage on a
+ * successful one")
+ */
+const HALF_DAMAGE_PATTERN = /half as much damage/i;
+
+/**
+ * Fields dnd5e 4.x moved into activities. Spells keep their own activation,
+ * duration, range and target, which their activities inherit.
+ */
+const ACTION_FIELDS = ['actionType', 'attack', 'attackBonus', 'chatFlavor', 'critical', 'damage', 'formula', 'save', 'consume', 'scaling', 'recharge'];
+const TARGETING_FIELDS = ['activation', 'duration', 'target', 'range'];
+
+/**
+ * Converts parsed item data to the dnd5e 4.x activities data model
+ *
+ * The parsers emit the 3.x shape (actionType, damage.parts, save, consume).
+ * dnd5e 4.x migrates that on creation but drops consumption targets and damage
+ * scaling along the way, so on 4.x the adapter writes system.activities itself:
+ * one activity per item, picked from the action type, with the item's damage
+ * parts, save DC, consumption and targeting.
+ */
+export class ActivityAdapter {
+  /**
+   * Whether to emit activities for the given model, reading the installed
+   * dnd5e version when the model is 'auto'
+   */
+  static usesActivities(model: ItemDataModel = 'auto'): boolean {
+    if (model !== 'auto') return model === 'activities';
+    const system = (globalThis as { game?: { system?: { id?: string; version?: string } } }).game?.system;
+    if (system?.id !== 'dnd5e' || !system.version) return false;
+    return Number.parseInt(system.version, 10) >= 4;
+  }
+
+  /**
+   * Item data for the selected model; unchanged for the legacy model
+   */
+  static adapt<T extends AdaptableItem>(item: T, model: ItemDataModel = 'auto'): T {
+    if (!this.usesActivities(model) || !item.system) return item;
+    const legacy = item.system as LegacySystem;
+    if (legacy.activities) return item;
+
+    const effects = ((item.effects ?? []) as AdaptableEffect[]).map((effect, index) =>
+      effect._id ? effect : { ...effect, _id: this.staticId(`dnd5eeffect${index}`) }
+    );
+    const activity = this.buildActivity(item.type, legacy, effects);
+    const removed = item.type === 'spell' ? ACTION_FIELDS : [...ACTION_FIELDS, ...TARGETING_FIELDS];
+    const system: Record<string, unknown> = Object.fromEntries(
+      Object.entries(legacy).filter(([key]) => !removed.includes(key) || (key === 'range' && item.type === 'weapon'))
+    );
+
+    if (legacy.uses) system.uses = this.convertUses(legacy.uses, legacy.recharge);
+    if (item.type === 'weapon') {
+      const [base] = legacy.damage?.parts ?? [];
+      system.damage = {
+        base: this.convertDamagePart(base?.[0] ?? '', base?.[1] ?? ''),
+        versatile: this.convertDamagePart(legacy.damage?.versatile ?? '', base?.[1] ?? ''),
+      };
+    }
+    system.activities = activity ? { [activity._id]: activity } : {};
+
+    return { ...item, system, ...(item.effects && { effects }) };
+  }
+
+  /**
+   * Cast activity for items that cast a spell (scrolls, wands, staves). An
+   * item casting several spells numbers its activities with index. Spending
+   * extra charges upcasts the spell when a consumption target scales. Leave
+   * spellbook off when the spell is already embedded on the actor.
+   */
+  static castActivity(
+    spell: { uuid: string; name?: string; level?: number | null; spellbook?: boolean },
+    consumption: FoundryConsumptionTarget[] = [],
+    index = 0
+  ): FoundryActivity {
+    return {
+      ...this.baseActivity('cast'),
+      _id: this.staticId(`dnd5ecast${index || ''}`),
+      name: spell.name ?? '',
+      consumption: {
+        targets: consumption,
+        scaling: { allowed: consumption.some(target => target.scaling.mode !== ''), max: '' },
+        spellSlot: false,
+      },
+      spell: {
+        uuid: spell.uuid,
+        level: spell.level ?? null,
+        challenge: { attack: null, save: null, override: false },
+        properties: ['vocal', 'somatic', 'material'],
+        spellbook: spell.spellbook ?? true,
+      },
+    };
+  }
+
+  private static buildActivity(
+    itemType: string,
+    system: LegacySystem,
+    effects: AdaptableEffect[]
+  ): FoundryActivity | null {
+    const type = this.getActivityType(itemType, system);
+    if (!type) return null;
+
+    const activity: FoundryActivity = {
+      ...this.baseActivity(type),
+      activation: {
+        type: system.activation?.type ?? '',
+        value: system.activation?.cost ?? null,
+        condition: system.activation?.condition ?? '',
+        override: false,
+      },
+      consumption: this.convertConsumption(itemType, system),
+      description: { chatFlavor: system.chatFlavor ?? '' },
+      duration: {
+        value: system.duration?.value == null ? '' : String(system.duration.value),
+        units: system.duration?.units ?? '',
+        special: '',
+        concentration: Boolean(system.components?.concentration || system.properties?.includes('concentration')),
+        override: false,
+      },
+      range: {
+        value: system.range?.value == null ? '' : String(system.range.value),
+        units: system.range?.units ?? '',
+        special: '',
+        override: false,
+      },
+      target: this.convertTarget(system.target),
+      // Effects not transferred to the owner are applied to targets from the chat card
+      effects: effects
+        .filter(effect => effect.transfer === false && effect._id)
+        .map(effect => ({ _id: effect._id as string })),
+    };
+
+    const parts = (system.damage?.parts ?? []).map(([formula, damageType], index) =>
+      this.convertDamagePart(formula, damageType, index === 0 && itemType === 'spell' ? system.scaling : undefined)
+    );
+    const actionType = system.actionType ?? '';
+
+    switch (type) {
+      case 'attack':
+        activity.attack = {
+          ability: itemType === 'spell' ? '' : system.ability ?? '',
+          bonus: system.attack?.bonus ?? system.attackBonus ?? '',
+          critical: { threshold: system.critical?.threshold ?? null },
+          // Scrolls attack with a fixed bonus instead of the caster's
+          flat: system.attack?.flat ?? false,
+          type: {
+            value: actionType.startsWith('m') ? 'melee' : 'ranged',
+            classification: actionType.endsWith('sak') ? 'spell' : 'weapon',
+          },
+        };
+        activity.damage = {
+          critical: { bonus: system.critical?.damage ?? '' },
+          // Weapon attacks roll the weapon's own damage.base
+          includeBase: itemType === 'weapon',
+          parts: itemType === 'weapon' ? [] : parts,
+        };
+        break;
+      case 'save':
+        activity.save = {
+          ability: system.save?.ability ? [system.save.ability] : [],
+          dc: this.convertSaveDc(system.save),
+        };
+        activity.damage = {
+          onSave: HALF_DAMAGE_PATTERN.test(system.description?.value ?? '') ? 'half' : 'none',
+          parts,
+        };
+        break;
+      case 'damage':
+        activity.damage = { critical: { allow: false, bonus: '' }, parts };
+        break;
+      case 'heal':
+        activity.healing = parts.find(part => part.types.some(damageType => HEALING_TYPES.includes(damageType)))
+          ?? this.convertDamagePart(system.formula ?? '', 'healing');
+        break;
+      case 'enchant':
+        activity.enchant = { identifier: '' };
+        activity.effects = effects
+          .filter(effect => effect._id)
+          .map(effect => ({ _id: effect._id as string, level: { min: null, max: null }, riders: { activity: [], effect: [], item: [] } }));
+        activity.restrictions = { allowMagical: false, categories: [], properties: [], type: '' };
+        break;
+      case 'utility':
+        activity.roll = { formula: system.formula ?? '', name: '', prompt: false, visible: false };
+        break;
+    }
+
+    return activity;
+  }
+
+  /**
+   * Activity type for the legacy action type. Spells always get one so they
+   * can be cast; other items only when they do something.
+   */
+  private static getActivityType(itemType: string, system: LegacySystem): FoundryActivityType | null {
+    const actionType = system.actionType ?? '';
+    if (ATTACK_TYPES.includes(actionType)) return 'attack';
+    if (actionType === 'save') return 'save';
+    if (actionType === 'heal') return 'heal';
+    if (actionType === 'ench') return 'enchant';
+    if ((system.damage?.parts ?? []).length > 0) return 'damage';
+    if (itemType === 'spell' || actionType || system.formula || system.activation?.type) return 'utility';
+    return null;
+  }
+
+  private static baseActivity(type: FoundryActivityType): FoundryActivity {
+    return {
+      _id: this.staticId(`dnd5e${type}`),
+      type,
+      name: '',
+      img: '',
+      sort: 0,
+      activation: { type: '', value: null, condition: '', override: false },
+      consumption: { targets: [], scaling: { allowed: false, max: '' }, spellSlot: true },
+      description: { chatFlavor: '' },
+      duration: { value: '', units: '', special: '', concentration: false, override: false },
+      effects: [],
+      range: { value: '', units: '', special: '', override: false },
+      target: this.convertTarget(undefined),
+      uses: { spent: 0, max: '', recovery: [] },
+    };
+  }
+
+  /**
+   * Consumption targets from the legacy consume block. Items with limited uses
+   * and nothing else to spend consume one of their own uses.
+   */
+  private static convertConsumption(itemType: string, system: LegacySystem): FoundryActivity['consumption'] {
+    const consume = system.consume ?? {};
+    const value = String(consume.amount || 1);
+    const scaling = { mode: consume.scale ? 'amount' : '', formula: '' };
+    const targets: FoundryConsumptionTarget[] = [];
+
+    switch (consume.type) {
+      case 'attribute':
+        targets.push({ type: 'attribute', target: consume.target ?? '', value, scaling });
+        break;
+      case 'charges':
+        targets.push({ type: 'itemUses', target: consume.target ?? '', value, scaling });
+        break;
+      case 'ammo':
+      case 'material':
+        targets.push({ type: 'material', target: consume.target ?? '', value, scaling });
+        break;
+      case 'hitDice':
+        targets.push({ type: 'hitDice', target: consume.target || 'smallest', value, scaling });
+        break;
+    }
+    const maxUses = system.uses?.max;
+    if (targets.length === 0 && maxUses && String(maxUses) !== '0') {
+      targets.push({ type: 'itemUses', target: '', value: '1', scaling: { mode: '', formula: '' } });
+    }
+
+    const mode = system.preparation?.mode ?? '';
+    return {
+      targets,
+      scaling: { allowed: Boolean(consume.scale), max: '' },
+      spellSlot: itemType === 'spell' && consume.type === 'slots' && (system.level ?? 0) > 0 && !['atwill', 'innate'].includes(mode),
+    };
+  }
+
+  /**
+   * Area templates keep their shape and size; anything else is a count of affected targets
+   */
+  private static convertTarget(target: LegacySystem['target']): FoundryActivity['target'] {
+    const isTemplate = TEMPLATE_TYPES.includes(target?.type ?? '');
+    const value = target?.value == null ? '' : String(target.value);
+    return {
+      template: {
+        count: isTemplate ? '1' : '',
+        contiguous: false,
+        type: isTemplate ? target?.type ?? '' : '',
+        size: isTemplate ? value : '',
+        width: isTemplate && target?.width ? String(target.width) : '',
+        height: isTemplate && target?.height ? String(target.height) : '',
+        units: isTemplate ? target?.units || 'ft' : '',
+      },
+      affects: {
+        count: isTemplate ? '' : value,
+        type: isTemplate ? '' : target?.type ?? '',
+        choice: false,
+        special: '',
+      },
+      prompt: true,
+      override: false,
+    };
+  }
+
+  private static convertSaveDc(save: LegacySystem['save']): { calculation: string; formula: string } {
+    if (save?.scaling === 'flat') return { calculation: '', formula: save.dc == null ? '' : String(save.dc) };
+    if (!save?.scaling || save.scaling === 'spell') return { calculation: 'spellcasting', formula: '' };
+    return { calculation: save.scaling, formula: '' };
+  }
+
+  /**
+   * Damage part from a legacy formula. Plain "XdY + bonus" formulas become
+   * dice fields; anything else is kept as a custom formula. Spell scaling from
+   * the legacy scaling block goes on the first part, as dnd5e 3.x applied it.
+   */
+  private static convertDamagePart(formula: string, damageType: string, scaling?: LegacySystem['scaling']): FoundryDamagePart {
+    const dice = this.parseDice(formula);
+    const part: FoundryDamagePart = {
+      number: dice?.number ?? null,
+      denomination: dice?.denomination ?? null,
+      bonus: dice?.bonus ?? '',
+      types: damageType ? [damageType] : [],
+      custom: { enabled: !dice && formula !== '', formula: dice ? '' : formula },
+      scaling: { mode: '', number: null, formula: '' },
+    };
+
+    if (scaling?.mode === 'cantrip' || scaling?.mode === 'level') {
+      const step = scaling.formula ? this.parseDice(scaling.formula) : null;
+      if (!scaling.formula) {
+        part.scaling = { mode: scaling.mode === 'cantrip' ? 'whole' : '', number: scaling.mode === 'cantrip' ? 1 : null, formula: '' };
+      } else if (step && !step.bonus && step.denomination === part.denomination) {
+        part.scaling = { mode: 'whole', number: step.number, formula: '' };
+      } else {
+        part.scaling = { mode: 'whole', number: null, formula: scaling.formula };
+      }
+    }
+    return part;
+  }
+
+  private static parseDice(formula: string): { number: number; denomination: number; bonus: string } | null {
+    const match = formula.trim().match(/^(\d+)d(\d+)(?:\s*([+-])\s*(.+))?$/);
+    if (!match) return null;
+    const bonus = match[4] ? `${match[3] === '-' ? '-' : ''}${match[4].trim()}` : '';
+    return { number: Number(match[1]), denomination: Number(match[2]), bonus };
+  }
+
+  /**
+   * Item uses as spent/max/recovery; per-charge items have no recovery period
+   */
+  private static convertUses(uses: NonNullable<LegacySystem['uses']>, recharge: LegacySystem['recharge']): Record<string, unknown> {
+    const { value, max: legacyMax, per, recovery: _recovery, ...rest } = uses;
+    void _recovery;
+    const max = legacyMax == null ? '' : String(legacyMax);
+    const recovery: Array<{ period: string; type: string; formula: string }> = [];
+    if (per && RECOVERY_PERIODS.includes(per)) recovery.push({ period: per, type: 'recoverAll', formula: '' });
+    if (recharge?.value) recovery.push({ period: 'recharge', type: 'recoverAll', formula: String(recharge.value) });
+    return {
+      ...rest,
+      spent: Math.max((Number(max) || 0) - (value ?? (Number(max) || 0)), 0),
+      max,
+      recovery,
+    };
+  }
+
+  /**
+   * dnd5e's static id scheme: a fixed string padded or cut to 16 characters
+   */
+  private static staticId(id: string): string {
+    return id.padEnd(16, '0').slice(0, 16);
+  }
+}
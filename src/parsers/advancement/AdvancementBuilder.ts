@@ -0,0 +1,105 @@
+import type { DDBModifier } from '../../types/index.js';
+import { ABILITY_SUBTYPES, SKILL_SUBTYPES } from '../character/ModifierResolver.js';
+import { ProficiencyMapper } from '../character/ProficiencyMapper.js';
+
+/**
+ * A dnd5e advancement entry on a class, subclass, race or background item
+ */
+export interface Advancement {
+  type: string;
+  title?: string;
+  level?: number;
+  configuration: Record<string, unknown>;
+  value: Record<string | number, unknown>;
+}
+
+/**
+ * Builds dnd5e advancement data for imported items
+ *
+ * Imported characters have already made every choice on D&D Beyond, so each
+ * advancement is created with its value filled in; Foundry treats it as
+ * applied and level-up only asks about new levels.
+ */
+export class AdvancementBuilder {
+  /**
+   * Hit points per level: the starting class takes the maximum at 1st level,
+   * every other level uses the average as DDB does by default
+   */
+  static hitPoints(levels: number, isStartingClass: boolean): Advancement {
+    const value: Record<number, string> = {};
+    for (let level = 1; level <= levels; level++) {
+      value[level] = level === 1 && isStartingClass ? 'max' : 'avg';
+    }
+    return { type: 'HitPoints', title: 'Hit Points', configuration: {}, value };
+  }
+
+  /**
+   * Creature size granted by a race
+   */
+  static size(size: string): Advancement {
+    return {
+      type: 'Size',
+      title: 'Size',
+      level: 0,
+      configuration: { sizes: [size] },
+      value: { size },
+    };
+  }
+
+  /**
+   * Trait proficiencies (skills, saves, tools, languages, armor, weapons)
+   * granted at a level, recorded as already chosen. Choices the player has
+   * not made on DDB stay open for the level-up flow.
+   */
+  static trait(
+    title: string,
+    grants: string[],
+    level = 0,
+    choices: Array<{ count: number; pool: string[] }> = []
+  ): Advancement | null {
+    if (grants.length === 0 && choices.length === 0) return null;
+    return {
+      type: 'Trait',
+      title,
+      level,
+      configuration: { mode: 'default', grants, choices },
+      value: { chosen: grants },
+    };
+  }
+
+  /**
+   * Open "one of your choice" language picks among a set of modifiers
+   */
+  static getLanguageChoices(modifiers: DDBModifier[]): Array<{ count: number; pool: string[] }> {
+    const count = modifiers.filter(
+      modifier => modifier.type === 'language' && ProficiencyMapper.isLanguageChoice(modifier.subType?.toLowerCase() ?? '')
+    ).length;
+    return count > 0 ? [{ count, pool: ['languages:*'] }] : [];
+  }
+
+  /**
+   * dnd5e trait keys for the proficiencies and languages a set of modifiers grants
+   */
+  static getTraitGrants(modifiers: DDBModifier[]): string[] {
+    const grants = new Set<string>();
+
+    modifiers.forEach(modifier => {
+      const subType = modifier.subType?.toLowerCase() ?? '';
+      if (modifier.type === 'language') {
+        const language = ProficiencyMapper.getLanguageTraitKey(subType);
+        if (language) grants.add(language);
+        return;
+      }
+      if (modifier.type !== 'proficiency') return;
+
+      const skill = Object.keys(SKILL_SUBTYPES).find(key => SKILL_SUBTYPES[key] === subType);
+      const save = Object.keys(ABILITY_SUBTYPES).find(key => subType === `${ABILITY_SUBTYPES[key]}-saving-throws`);
+      const equipment = ProficiencyMapper.getTraitKey(subType);
+      if (skill) grants.add(`skills:${skill}`);
+      else if (save) grants.add(`saves:${save}`);
+      else if (equipment) grants.add(equipment);
+    });
+
+    return Array.from(grants);
+  }
+}
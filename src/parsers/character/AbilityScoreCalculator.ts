@@ -0,0 +1,137 @@
+import type { AbilityScoreBreakdown, DDBCharacter } from '../../types/index.js';
+import {
+  ABILITY_SUBTYPES,
+  EFFECT_MODES,
+  ModifierResolver,
+  type EffectChange,
+  type ResolveOptions,
+  type SourcedModifier,
+} from './ModifierResolver.js';
+
+/**
+ * Ability scores cap at 20 unless a feature such as Primal Champion raises the maximum
+ */
+const DEFAULT_ABILITY_MAX = 20;
+
+/**
+ * Computes ability scores the way D&D Beyond does
+ *
+ * base score + "other modifier" (bonusStats) + racial, ASI, feat and item
+ * bonuses, capped at the ability maximum; then "set" modifiers (Headband of
+ * Intellect, Belt of Giant Strength) raise the score if higher, and an
+ * override score replaces everything. Contributions carried by transferable
+ * effects are recorded but left out of the value baked onto the actor; the
+ * effects themselves carry the cap and override (see getEffectLimit).
+ */
+export class AbilityScoreCalculator {
+  /**
+   * Breakdown for every ability, keyed by Foundry ability key
+   */
+  static calculate(ddbCharacter: DDBCharacter): Record<string, AbilityScoreBreakdown> {
+    return Object.fromEntries(
+      Object.keys(ABILITY_SUBTYPES).map(ability => [ability, this.getBreakdown(ddbCharacter, ability)])
+    );
+  }
+
+  /**
+   * Final score for an ability. The default is the value baked onto the actor;
+   * includeTransferred returns the score D&D Beyond shows.
+   */
+  static getScore(ddbCharacter: DDBCharacter, ability: string, options: ResolveOptions = {}): number {
+    const breakdown = this.getBreakdown(ddbCharacter, ability);
+    return options.includeTransferred ? breakdown.total : breakdown.value;
+  }
+
+  /**
+   * Every contribution to a single ability score
+   */
+  static getBreakdown(ddbCharacter: DDBCharacter, ability: string): AbilityScoreBreakdown {
+    const statId = Object.keys(ABILITY_SUBTYPES).indexOf(ability) + 1;
+    const name = ABILITY_SUBTYPES[ability];
+    const modifiers = ModifierResolver.resolve(ddbCharacter, { includeTransferred: true }).modifiers
+      .filter(modifier => !ModifierResolver.isConditional(modifier));
+
+    const base = ddbCharacter.stats?.find(stat => stat.id === statId)?.value ?? 10;
+    const other = ddbCharacter.bonusStats?.find(stat => stat.id === statId)?.value ?? 0;
+    const overrideValue = ddbCharacter.overrideStats?.find(stat => stat.id === statId)?.value;
+    const override = typeof overrideValue === 'number' ? overrideValue : null;
+    const max = DEFAULT_ABILITY_MAX + ModifierResolver.sum(
+      ModifierResolver.filterModifiers(modifiers, 'bonus', `${name}-maximum`)
+    );
+
+    const toContribution = (modifier: SourcedModifier) => ({
+      source: modifier.source,
+      label: this.getSourceLabel(ddbCharacter, modifier),
+      value: ModifierResolver.getValue(modifier),
+      effect: ModifierResolver.isTransferred(ddbCharacter, modifier),
+    });
+    const bonuses = ModifierResolver.filterModifiers(modifiers, 'bonus', `${name}-score`).map(toContribution);
+    const sets = ModifierResolver.filterModifiers(modifiers, 'set', `${name}-score`)
+      .map(toContribution)
+      .sort((a, b) => b.value - a.value);
+
+    const score = (includeEffects: boolean): number => {
+      if (override !== null) return override;
+      const raised = base + other + bonuses
+        .filter(bonus => includeEffects || !bonus.effect)
+        .reduce((total, bonus) => total + bonus.value, 0);
+      // A rolled or homebrew base above the maximum is never reduced
+      const capped = Math.min(raised, Math.max(max, base + other));
+      const set = sets.find(entry => includeEffects || !entry.effect)?.value ?? 0;
+      return Math.max(capped, set);
+    };
+
+    return {
+      base,
+      other,
+      bonuses,
+      max,
+      set: sets[0] ?? null,
+      override,
+      value: score(false),
+      total: score(true),
+    };
+  }
+
+  /**
+   * Change that keeps an ability score raised by effects within the limits
+   * D&D Beyond applies: the override score when one is set, otherwise the
+   * ability maximum. Score increases are ADD changes and "set" scores are
+   * UPGRADE changes, so a DOWNGRADE lands between them like the cap does.
+   */
+  static getEffectLimit(ddbCharacter: DDBCharacter, ability: string): EffectChange {
+    const breakdown = this.getBreakdown(ddbCharacter, ability);
+    const key = `system.abilities.${ability}.value`;
+    if (breakdown.override !== null) {
+      return { key, mode: EFFECT_MODES.OVERRIDE, value: String(breakdown.override) };
+    }
+    return { key, mode: EFFECT_MODES.DOWNGRADE, value: String(Math.max(breakdown.max, breakdown.base + breakdown.other)) };
+  }
+
+  /**
+   * Name of the race, feat, item, background or class feature a modifier came from
+   */
+  private static getSourceLabel(ddbCharacter: DDBCharacter, modifier: SourcedModifier): string {
+    const componentId = modifier.componentId;
+    switch (modifier.source) {
+      case 'race':
+        return ddbCharacter.race?.fullName ?? 'Race';
+      case 'background':
+        return ddbCharacter.background?.definition?.name ?? 'Background';
+      case 'feat':
+        return ddbCharacter.feats?.find(feat => feat.definition.id === componentId)?.definition.name ?? 'Feat';
+      case 'item':
+        return ddbCharacter.inventory?.find(
+          item => item.definition?.id === componentId || item.id === componentId
+        )?.definition?.name ?? 'Item';
+      case 'class': {
+        const feature = (ddbCharacter.classes ?? [])
+          .flatMap(cls => cls.classFeatures ?? [])
+          .find(classFeature => classFeature.id === componentId);
+        return feature?.name ?? 'Class';
+      }
+      default:
+        return modifier.friendlySubtypeName ?? String(modifier.source);
+    }
+  }
+}
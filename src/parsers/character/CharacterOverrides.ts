@@ -0,0 +1,425 @@
+import type {
+  CharacterOverride,
+  DDBCharacter,
+  DDBCharacterValue,
+  FoundryActor,
+  FoundryItemData,
+} from '../../types/index.js';
+import { ABILITY_SUBTYPES, CONDITION_IDS, EFFECT_MODES, MOVEMENT_IDS, SENSE_IDS, ModifierResolver } from './ModifierResolver.js';
+
+/**
+ * DDB characterValues typeIds that are honored on import
+ */
+const VALUE_TYPES = {
+  acOverride: 1,
+  acMagicBonus: 2,
+  acMiscBonus: 3,
+  itemName: 8,
+  itemNotes: 9,
+  skillOverride: 23,
+  skillMiscBonus: 24,
+  skillMagicBonus: 25,
+  skillProficiency: 26,
+  saveOverride: 38,
+  saveMiscBonus: 39,
+  saveMagicBonus: 40,
+  saveProficiency: 41,
+};
+
+/**
+ * Applied after item and feat effects (default priority is mode x 10)
+ */
+const OVERRIDE_PRIORITY = 100;
+
+/**
+ * DDB skill entity id -> Foundry skill key
+ */
+const SKILL_IDS: Record<number, string> = {
+  2: 'ath',
+  3: 'acr',
+  4: 'slt',
+  5: 'ste',
+  6: 'arc',
+  7: 'his',
+  8: 'inv',
+  9: 'nat',
+  10: 'rel',
+  11: 'ani',
+  12: 'ins',
+  13: 'med',
+  14: 'prc',
+  15: 'sur',
+  16: 'dec',
+  17: 'itm',
+  18: 'prf',
+  19: 'per',
+};
+
+/**
+ * DDB proficiencyLevel -> dnd5e proficiency multiplier
+ */
+const PROFICIENCY_LEVELS: Record<number, number> = {
+  1: 0,
+  2: 0.5,
+  3: 1,
+  4: 2,
+};
+
+/**
+ * DDB customProficiencies type -> Foundry trait key
+ */
+const CUSTOM_PROFICIENCY_TRAITS: Record<number, 'toolProf' | 'languages' | 'armorProf' | 'weaponProf'> = {
+  2: 'toolProf',
+  3: 'languages',
+  4: 'armorProf',
+  5: 'weaponProf',
+};
+
+const DAMAGE_TYPE_ORDER = [
+  'bludgeoning',
+  'piercing',
+  'slashing',
+  'lightning',
+  'thunder',
+  'poison',
+  'cold',
+  'radiant',
+  'fire',
+  'necrotic',
+  'acid',
+  'psychic',
+];
+
+/**
+ * DDB damage adjustmentId -> Foundry trait and damage type. Resistances,
+ * immunities and vulnerabilities use the same damage order from ids 1, 17
+ * and 33; force was added later as 47, 48 and 49.
+ */
+export const DAMAGE_ADJUSTMENTS: Record<number, { trait: 'dr' | 'di' | 'dv'; type: string }> = {
+  ...Object.fromEntries(
+    DAMAGE_TYPE_ORDER.flatMap((type, index) => [
+      [index + 1, { trait: 'dr', type }],
+      [index + 17, { trait: 'di', type }],
+      [index + 33, { trait: 'dv', type }],
+    ])
+  ),
+  47: { trait: 'dr', type: 'force' },
+  48: { trait: 'di', type: 'force' },
+  49: { trait: 'dv', type: 'force' },
+};
+
+type Overrides = Record<string, CharacterOverride>;
+
+/**
+ * Applies the values a player entered on the D&D Beyond sheet over the
+ * computed import
+ *
+ * This runs after everything else so overrides always win. Every field it
+ * touches is recorded in flags['beyond-foundry'].overrides, keyed by its
+ * path on the actor (or item), so the GM can see what was customized.
+ */
+export class CharacterOverrides {
+  /**
+   * Apply all actor-level overrides and add custom items
+   */
+  static apply(actor: FoundryActor, ddbCharacter: DDBCharacter): FoundryActor {
+    const overrides: Overrides = {};
+
+    this.recordAbilityOverrides(ddbCharacter, overrides);
+    this.applyArmorClassValues(actor, ddbCharacter, overrides);
+    this.applySaveValues(actor, ddbCharacter, overrides);
+    this.applySkillValues(actor, ddbCharacter, overrides);
+    this.recordCustomMovementAndSenses(actor, ddbCharacter, overrides);
+    this.applyCustomProficiencies(actor, ddbCharacter, overrides);
+    this.applyCustomDefenseAdjustments(actor, ddbCharacter, overrides);
+    this.applyCustomItems(actor, ddbCharacter, overrides);
+
+    if (Object.keys(overrides).length > 0) {
+      actor.flags ??= {};
+      actor.flags['beyond-foundry'] = { ...actor.flags['beyond-foundry'], overrides };
+    }
+    return actor;
+  }
+
+  /**
+   * Apply name and notes overrides to an inventory item, keyed by the DDB
+   * inventory id. Overridden fields are flagged on the item itself.
+   */
+  static applyToItem<T extends Pick<FoundryItemData, 'name' | 'system' | 'flags'>>(
+    item: T,
+    inventoryId: number,
+    ddbCharacter?: DDBCharacter
+  ): T {
+    const values = (ddbCharacter?.characterValues ?? []).filter(value => Number(value.valueId) === inventoryId);
+    const overrides: Overrides = {};
+
+    const name = this.findValue(values, VALUE_TYPES.itemName);
+    if (typeof name?.value === 'string' && name.value.trim()) {
+      item.name = name.value;
+      overrides.name = { source: 'characterValues', value: name.value };
+    }
+
+    const notes = this.findValue(values, VALUE_TYPES.itemNotes);
+    if (typeof notes?.value === 'string' && notes.value.trim()) {
+      const description = (item.system.description ?? { value: '' }) as { value: string };
+      description.value = `${description.value}<p><strong>Notes:</strong> ${notes.value}</p>`;
+      item.system.description = description;
+      overrides['system.description.value'] = { source: 'characterValues', value: notes.value };
+    }
+
+    if (Object.keys(overrides).length > 0) {
+      const flags = (item.flags ?? {}) as Record<string, Record<string, unknown> | undefined>;
+      flags['beyond-foundry'] = { ...flags['beyond-foundry'], overrides };
+      item.flags = flags;
+    }
+    return item;
+  }
+
+  /**
+   * overrideStats are already part of the ability score calculation; they are
+   * only recorded here
+   */
+  private static recordAbilityOverrides(ddbCharacter: DDBCharacter, overrides: Overrides) {
+    const abilityKeys = Object.keys(ABILITY_SUBTYPES);
+    for (const stat of ddbCharacter.overrideStats ?? []) {
+      const key = abilityKeys[stat.id - 1];
+      if (!key || typeof stat.value !== 'number') continue;
+      overrides[`system.abilities.${key}.value`] = { source: 'overrideStats', value: stat.value };
+    }
+  }
+
+  /**
+   * A custom AC replaces the calculation; magic and misc bonuses add to it.
+   * Item effects would still add their AC bonuses on top, so an override is
+   * also written as an actor effect that wins over them.
+   */
+  private static applyArmorClassValues(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    const ac = actor.system.attributes.ac;
+    const override = this.findValue(ddbCharacter.characterValues, VALUE_TYPES.acOverride);
+    const bonus = [VALUE_TYPES.acMagicBonus, VALUE_TYPES.acMiscBonus]
+      .map(typeId => this.findValue(ddbCharacter.characterValues, typeId))
+      .filter((value): value is DDBCharacterValue => Boolean(value) && this.isNumber(value?.value))
+      .reduce((total, value) => total + Number(value.value), 0);
+
+    if (override && this.isNumber(override.value)) {
+      const flat = Number(override.value) + bonus;
+      ac.calc = 'flat';
+      ac.flat = flat;
+      ac.formula = '';
+      overrides['system.attributes.ac.flat'] = this.toOverride(override);
+      if (bonus !== 0) overrides['system.attributes.ac.bonus'] = { source: 'characterValues', value: bonus };
+      actor.effects = [
+        ...(actor.effects ?? []),
+        {
+          name: 'Armor Class Override',
+          img: 'icons/svg/shield.svg',
+          transfer: false,
+          disabled: false,
+          changes: [
+            { key: 'system.attributes.ac.calc', mode: EFFECT_MODES.OVERRIDE, value: 'flat', priority: OVERRIDE_PRIORITY },
+            { key: 'system.attributes.ac.flat', mode: EFFECT_MODES.OVERRIDE, value: String(flat), priority: OVERRIDE_PRIORITY },
+            { key: 'system.attributes.ac.bonus', mode: EFFECT_MODES.OVERRIDE, value: '0', priority: OVERRIDE_PRIORITY },
+          ],
+          flags: { 'beyond-foundry': { override: true } },
+        },
+      ];
+      return;
+    }
+
+    if (bonus !== 0) {
+      ac.bonus = this.appendBonus(ac.bonus, bonus);
+      overrides['system.attributes.ac.bonus'] = { source: 'characterValues', value: bonus };
+    }
+  }
+
+  /**
+   * Saving throw proficiency, bonuses and total overrides, keyed by stat id
+   */
+  private static applySaveValues(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    const abilityKeys = Object.keys(ABILITY_SUBTYPES);
+    const prof = actor.system.attributes.prof ?? 0;
+
+    abilityKeys.forEach((key, index) => {
+      const ability = actor.system.abilities[key];
+      const values = (ddbCharacter.characterValues ?? []).filter(value => Number(value.valueId) === index + 1);
+      if (!ability || values.length === 0) return;
+
+      const proficiency = this.findValue(values, VALUE_TYPES.saveProficiency);
+      if (proficiency && PROFICIENCY_LEVELS[Number(proficiency.value)] !== undefined) {
+        ability.proficient = PROFICIENCY_LEVELS[Number(proficiency.value)] >= 1 ? 1 : 0;
+        overrides[`system.abilities.${key}.proficient`] = this.toOverride(proficiency);
+      }
+
+      const bonus = this.sumValues(values, [VALUE_TYPES.saveMiscBonus, VALUE_TYPES.saveMagicBonus]);
+      if (bonus !== 0) {
+        ability.bonuses.save = this.appendBonus(ability.bonuses.save, bonus);
+        overrides[`system.abilities.${key}.bonuses.save`] = { source: 'characterValues', value: bonus };
+      }
+
+      // A total override becomes the save bonus needed to reach it
+      const total = this.findValue(values, VALUE_TYPES.saveOverride);
+      if (total && this.isNumber(total.value)) {
+        const base = (ability.mod ?? 0) + prof * ability.proficient;
+        ability.bonuses.save = ModifierResolver.formatBonus(Number(total.value) - base);
+        overrides[`system.abilities.${key}.bonuses.save`] = this.toOverride(total);
+      }
+    });
+  }
+
+  /**
+   * Skill proficiency, bonuses and total overrides, keyed by DDB skill id
+   */
+  private static applySkillValues(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    const prof = actor.system.attributes.prof ?? 0;
+
+    Object.entries(SKILL_IDS).forEach(([skillId, key]) => {
+      const skill = actor.system.skills[key];
+      const values = (ddbCharacter.characterValues ?? []).filter(value => Number(value.valueId) === Number(skillId));
+      if (!skill || values.length === 0) return;
+
+      const proficiency = this.findValue(values, VALUE_TYPES.skillProficiency);
+      if (proficiency && PROFICIENCY_LEVELS[Number(proficiency.value)] !== undefined) {
+        skill.value = PROFICIENCY_LEVELS[Number(proficiency.value)];
+        overrides[`system.skills.${key}.value`] = this.toOverride(proficiency);
+      }
+
+      const bonus = this.sumValues(values, [VALUE_TYPES.skillMiscBonus, VALUE_TYPES.skillMagicBonus]);
+      if (bonus !== 0) {
+        skill.bonuses.check = this.appendBonus(skill.bonuses.check, bonus);
+        overrides[`system.skills.${key}.bonuses.check`] = { source: 'characterValues', value: bonus };
+      }
+
+      const total = this.findValue(values, VALUE_TYPES.skillOverride);
+      if (total && this.isNumber(total.value)) {
+        const mod = actor.system.abilities[skill.ability]?.mod ?? 0;
+        const base = mod + Math.floor(prof * skill.value);
+        skill.bonuses.check = ModifierResolver.formatBonus(Number(total.value) - base);
+        overrides[`system.skills.${key}.bonuses.check`] = this.toOverride(total);
+      }
+    });
+  }
+
+  /**
+   * Custom speeds and senses are already applied by parseMovement and
+   * parseSenses; they are only recorded here
+   */
+  private static recordCustomMovementAndSenses(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    for (const speed of ddbCharacter.customSpeeds ?? []) {
+      const key = MOVEMENT_IDS[speed.movementId];
+      if (!key || speed.distance === null) continue;
+      overrides[`system.attributes.movement.${key}`] = { source: 'customSpeeds', value: speed.distance };
+    }
+    for (const sense of ddbCharacter.customSenses ?? []) {
+      const key = SENSE_IDS[sense.senseId];
+      if (!key || sense.distance === null) continue;
+      overrides[`system.attributes.senses.${key}`] = { source: 'customSenses', value: sense.distance };
+    }
+  }
+
+  /**
+   * Custom tool, language, armor and weapon proficiencies become custom trait
+   * entries. Custom skills have no dnd5e equivalent and are only flagged.
+   */
+  private static applyCustomProficiencies(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    for (const proficiency of ddbCharacter.customProficiencies ?? []) {
+      if (!proficiency.name) continue;
+      const traitKey = CUSTOM_PROFICIENCY_TRAITS[proficiency.type];
+
+      if (!traitKey) {
+        overrides[`customSkills.${proficiency.name}`] = {
+          source: 'customProficiencies',
+          value: PROFICIENCY_LEVELS[proficiency.proficiencyLevel ?? 1] ?? 0,
+          notes: proficiency.notes ?? undefined,
+        };
+        continue;
+      }
+
+      const trait = (actor.system.traits[traitKey] ??= { value: [], custom: '' });
+      this.addCustomEntry(trait, proficiency.name);
+      overrides[`system.traits.${traitKey}.custom`] = { source: 'customProficiencies', value: trait.custom };
+    }
+  }
+
+  /**
+   * Player-added resistances, immunities, vulnerabilities and condition immunities
+   */
+  private static applyCustomDefenseAdjustments(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    for (const adjustment of ddbCharacter.customDefenseAdjustments ?? []) {
+      const mapped = adjustment.type === 2
+        ? { trait: 'ci' as const, type: CONDITION_IDS[adjustment.adjustmentId] }
+        : DAMAGE_ADJUSTMENTS[adjustment.adjustmentId];
+      if (!mapped?.type) continue;
+
+      const trait = actor.system.traits[mapped.trait];
+      if (!trait.value.includes(mapped.type)) trait.value.push(mapped.type);
+      overrides[`system.traits.${mapped.trait}.value`] = {
+        source: 'customDefenseAdjustments',
+        value: [...trait.value],
+        notes: adjustment.source ?? undefined,
+      };
+    }
+  }
+
+  /**
+   * Custom items have no DDB definition and are embedded as loot
+   */
+  private static applyCustomItems(actor: FoundryActor, ddbCharacter: DDBCharacter, overrides: Overrides) {
+    for (const customItem of ddbCharacter.customItems ?? []) {
+      const description = [customItem.description, customItem.notes && `<p><strong>Notes:</strong> ${customItem.notes}</p>`]
+        .filter(Boolean)
+        .join('');
+
+      actor.items ??= [];
+      actor.items.push({
+        name: customItem.name,
+        type: 'loot',
+        img: 'icons/svg/item-bag.svg',
+        system: {
+          description: { value: description },
+          quantity: customItem.quantity ?? 1,
+          weight: customItem.weight ?? 0,
+          price: { value: customItem.cost ?? 0, denomination: 'gp' },
+        },
+        flags: {
+          'beyond-foundry': {
+            customItemId: customItem.id,
+            customItem: true,
+          },
+        },
+      });
+      overrides[`items.${customItem.name}`] = { source: 'customItems', value: customItem.id };
+    }
+  }
+
+  private static findValue(values: DDBCharacterValue[] | undefined, typeId: number): DDBCharacterValue | undefined {
+    return values?.find(value => value.typeId === typeId && value.value !== null);
+  }
+
+  private static sumValues(values: DDBCharacterValue[], typeIds: number[]): number {
+    return typeIds
+      .map(typeId => this.findValue(values, typeId))
+      .reduce((total, value) => total + (value && this.isNumber(value.value) ? Number(value.value) : 0), 0);
+  }
+
+  private static isNumber(value: DDBCharacterValue['value'] | undefined): boolean {
+    return value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value));
+  }
+
+  private static toOverride(value: DDBCharacterValue): CharacterOverride {
+    return { source: 'characterValues', value: value.value, notes: value.notes ?? undefined };
+  }
+
+  /**
+   * Add a flat amount to an existing bonus formula
+   */
+  private static appendBonus(formula: string | undefined, amount: number): string {
+    if (!formula) return ModifierResolver.formatBonus(amount);
+    return `${formula} ${amount < 0 ? '-' : '+'} ${Math.abs(amount)}`;
+  }
+
+  private static addCustomEntry(trait: { custom?: string }, entry: string) {
+    const entries = (trait.custom ?? '').split(';').map(part => part.trim()).filter(Boolean);
+    if (!entries.includes(entry)) entries.push(entry);
+    trait.custom = entries.join('; ');
+  }
+}
@@ -5,11 +5,35 @@ import type {
   FoundryActor,
   DDBClass,
   DDBItem,
-  DDBSpell,
+  DDBFeature,
+  DDBClassFeature,
+  FoundryItem,
   FoundryItemData,
   FoundryResource,
+  FoundryActiveEffect,
+  ClassSpellcasting,
+  ArmorClassBreakdown,
+  HitPointBreakdown,
+  ImportOptions,
 } from '../../types/index.ts';
 import { Logger } from '../../module/utils/logger';
+import { ModifierResolver, SENSE_IDS, MOVEMENT_IDS, CONDITION_IDS, type DefenseTrait, type ResolveOptions } from './ModifierResolver.js';
+import { CharacterOverrides } from './CharacterOverrides.js';
+import { AbilityScoreCalculator } from './AbilityScoreCalculator.js';
+import { EncumbranceCalculator } from './EncumbranceCalculator.js';
+import { ProficiencyMapper } from './ProficiencyMapper.js';
+import { SpellSlotCalculator } from '../spells/SpellSlotCalculator.js';
+import { SpellcastingCalculator } from '../spells/SpellcastingCalculator.js';
+import { SpellParser } from '../spells/SpellParser.js';
+import { ItemParser } from '../items/ItemParser.js';
+import { ClassParser } from '../ClassParser.js';
+import { RaceParser } from '../RaceParser.js';
+import { BackgroundParser } from '../BackgroundParser.js';
+import { ClassResourceParser } from '../features/ClassResourceParser.js';
+import { FeatureParser } from '../features/FeatureParser.js';
+import { ActiveEffectGenerator } from '../effects/ActiveEffectGenerator.js';
+
+const EXHAUSTION_CONDITION_ID = 4;
 
 /**
  * Comprehensive Character Parser for D&D Beyond to FoundryVTT D&D 5e system
@@ -28,14 +52,19 @@ export class CharacterParser {
   /**
    * Parse a complete D&D Beyond character into FoundryVTT actor data
    * @param ddbCharacter - The D&D Beyond character data
+   * @param options - Import options; without items, item bonuses are baked in
    * @returns Foundry actor data with comprehensive parsing
    */
-  public static async parseCharacter(ddbCharacter: DDBCharacter): Promise<FoundryActor> {
+  public static async parseCharacter(
+    ddbCharacter: DDBCharacter,
+    options: Partial<ImportOptions> = {}
+  ): Promise<FoundryActor> {
     // Select Logger implementation at runtime
     const Logger = (typeof process !== 'undefined' && process.env.BEYOND_FOUNDRY_CLI)
       ? (await import('./logger-cli-fallback.ts')).Logger
       : (await import('../../module/utils/logger.ts')).Logger;
     Logger.info(`🔮 Comprehensive parsing: ${ddbCharacter.name}`);
+    ModifierResolver.setImportOptions(ddbCharacter, options);
 
     const actorData: FoundryActor = {
       name: ddbCharacter.name,
@@ -48,6 +77,7 @@ export class CharacterParser {
         traits: this.parseTraits(ddbCharacter),
         currency: this.parseCurrency(ddbCharacter),
         skills: this.parseSkills(ddbCharacter),
+        tools: this.parseProficiencies(ddbCharacter).tools,
         spells: this.parseSpells(ddbCharacter),
         resources: this.parseResources(ddbCharacter),
         bonuses: this.parseBonuses(ddbCharacter),
@@ -67,10 +97,20 @@ export class CharacterParser {
             'modifier-system',
             'comprehensive-traits',
           ],
+          armorClass: this.calculateArmorClass(ddbCharacter).breakdown,
+          hitPoints: this.calculateHitPoints(ddbCharacter),
+          abilities: AbilityScoreCalculator.calculate(ddbCharacter),
+          encumbrance: EncumbranceCalculator.calculate(ddbCharacter),
+          advantage: this.parseAdvantages(ddbCharacter),
+          progression: this.isMilestone(ddbCharacter) ? 'milestone' : 'xp',
         },
+        dnd5e: this.parseCharacterFlags(ddbCharacter),
       },
     };
 
+    // Player-entered overrides win over everything computed above
+    CharacterOverrides.apply(actorData, ddbCharacter);
+
     Logger.info(`✅ Comprehensive parsing complete: ${actorData.name}`);
     return actorData;
   }
@@ -88,29 +128,25 @@ export class CharacterParser {
       cha: { value: 10, proficient: 0, bonuses: { check: '', save: '' }, min: 3, mod: 0 },
     };
 
-    // Apply base stats
-    if (ddbCharacter.stats) {
-      ddbCharacter.stats.forEach(stat => {
-        const abilityKey = Object.keys(abilities).find(key => {
-          if (typeof stat.id === 'string') {
-            return key === (stat.id as string).toLowerCase();
-          } else if (typeof stat.id === 'number') {
-            // If stat.id is a number, map to ability key by index
-            const keys = Object.keys(abilities);
-            return key === keys[stat.id - 1];
-          }
-          return false;
-        });
-        if (abilityKey) {
-          abilities[abilityKey].value = stat.value ?? 10;
-          abilities[abilityKey].mod = CharacterParser.getAbilityModifier(stat.value ?? 10);
-        }
-      });
-    }
+    // Apply the full ability score pipeline (see AbilityScoreCalculator)
+    Object.keys(abilities).forEach((abilityKey, index) => {
+      const score = CharacterParser.getAbilityScore(ddbCharacter, index + 1);
+      abilities[abilityKey].value = score;
+      abilities[abilityKey].mod = CharacterParser.getAbilityModifier(score);
+    });
 
     // Apply saving throw proficiencies
     CharacterParser.applySavingThrowProficiencies(ddbCharacter, abilities);
 
+    // Apply per-ability check and save bonuses
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+    Object.keys(abilities).forEach(abilityKey => {
+      abilities[abilityKey].bonuses = {
+        check: ModifierResolver.formatBonus(resolved.checks[abilityKey]?.bonus ?? 0),
+        save: ModifierResolver.formatBonus(resolved.saves[abilityKey]?.bonus ?? 0),
+      };
+    });
+
     return abilities;
   }
 
@@ -118,20 +154,11 @@ export class CharacterParser {
    * Apply saving throw proficiencies from modifiers
    */
   private static applySavingThrowProficiencies(ddbCharacter: DDBCharacter, abilities: FoundryActor['system']['abilities']) {
-    const modifiers = ddbCharacter.modifiers ?? {};
-    const abilityMap = { 1: 'str', 2: 'dex', 3: 'con', 4: 'int', 5: 'wis', 6: 'cha' };
-
-    Object.values(modifiers)?.forEach(modifierArray => {
-      if (Array.isArray(modifierArray)) {
-        modifierArray.forEach(modifier => {
-          if (modifier.type === 'proficiency' && modifier.subType === 'saving-throws') {
-            const abilityKey = abilityMap[modifier.entityId as keyof typeof abilityMap];
-            if (abilityKey && abilities[abilityKey]) {
-              abilities[abilityKey].proficient = 1;
-              Logger.debug(`💾 Save proficiency: ${abilityKey.toUpperCase()}`);
-            }
-          }
-        });
+    Object.keys(abilities).forEach((abilityKey, index) => {
+      const proficient = CharacterParser.isProficientInSave(ddbCharacter, index + 1);
+      if (proficient > 0) {
+        abilities[abilityKey].proficient = proficient;
+        Logger.debug(`💾 Save proficiency: ${abilityKey.toUpperCase()}`);
       }
     });
   }
@@ -140,16 +167,13 @@ export class CharacterParser {
    * Parse character attributes (HP, AC, etc.)
    */
   private static parseAttributes(ddbCharacter: DDBCharacter) {
+    const hitPoints = this.calculateHitPoints(ddbCharacter);
     return {
-      ac: {
-        flat: null,
-        calc: 'default',
-        formula: '',
-      },
+      ac: this.calculateArmorClass(ddbCharacter).ac,
       hp: {
-        value: ddbCharacter.baseHitPoints ?? 0,
-        max: ddbCharacter.baseHitPoints ?? 0,
-        temp: 0,
+        value: hitPoints.value,
+        max: hitPoints.max,
+        temp: hitPoints.temp,
         tempmax: 0,
         bonuses: {
           level: '',
@@ -185,11 +209,7 @@ export class CharacterParser {
       race: ddbCharacter.race?.fullName ?? '',
       background: ddbCharacter.background?.definition?.name ?? '',
       originalClass: primaryClass,
-      xp: {
-        value: ddbCharacter.currentXp ?? 0,
-        max: 0,
-        pct: 0,
-      },
+      xp: this.parseExperience(ddbCharacter),
       level: 0,
       classes: {},
       appearance: ddbCharacter.notes?.appearance ?? '',
@@ -208,124 +228,46 @@ export class CharacterParser {
     };
   }
 
-  /**
-   * Parse detailed class information
-   */
-  private static parseClassDetails(ddbCharacter: DDBCharacter): Record<string, { levels: number; subclass: string; hitDie: number }> {
-    const classDetails: Record<string, { levels: number; subclass: string; hitDie: number }> = {};
-    ddbCharacter.classes?.forEach(cls => {
-      const className = cls.definition.name.toLowerCase();
-      classDetails[className] = {
-        levels: cls.level,
-        subclass: cls.subclassDefinition?.name ?? '',
-        hitDie: cls.definition.hitDie,
-      };
-    });
-
-    return classDetails;
-  }
-
   /**
    * Parse character traits with enhanced resistances, languages, and proficiencies
    * (Enhanced: custom traits/notes)
    */
   private static parseTraits(ddbCharacter: DDBCharacter) {
+    const resolvedTraits = ModifierResolver.resolve(ddbCharacter).traits;
+    const proficiencies = this.parseProficiencies(ddbCharacter);
     return {
-      size: this.parseSize(ddbCharacter.race?.size ?? 'medium'),
+      size: RaceParser.getSize(ddbCharacter.race),
       senses: '',
-      languages: {
-        value: this.parseLanguages(ddbCharacter),
-        custom: '',
-      },
-      di: { value: [], custom: '' }, // Damage immunities
-      dr: { value: [], custom: '' }, // Damage resistances
-      dv: { value: [], custom: '' }, // Damage vulnerabilities
-      ci: { value: [], custom: '' }, // Condition immunities
-      weaponProf: {
-        value: this.parseWeaponProficiencies(ddbCharacter),
-        custom: '',
-      },
-      armorProf: {
-        value: this.parseArmorProficiencies(ddbCharacter),
-        custom: '',
-      },
-      toolProf: {
-        value: this.parseToolProficiencies(ddbCharacter),
-        custom: '',
-      },
+      languages: this.parseLanguages(ddbCharacter),
+      di: this.parseDefenseTrait(resolvedTraits.di, true), // Damage immunities
+      dr: this.parseDefenseTrait(resolvedTraits.dr, true), // Damage resistances
+      dv: this.parseDefenseTrait(resolvedTraits.dv, true), // Damage vulnerabilities
+      ci: this.parseDefenseTrait(resolvedTraits.ci, false), // Condition immunities
+      weaponProf: proficiencies.weaponProf,
+      armorProf: proficiencies.armorProf,
+      toolProf: proficiencies.toolProf,
       // custom: ddbCharacter.notes?.otherNotes ?? '', // Not present in DDBCharacter, left for future
       custom: '', // Placeholder for future DDB fields
     };
   }
 
   /**
-   * Parse weapon proficiencies from modifiers
-   */
-  private static parseWeaponProficiencies(ddbCharacter: DDBCharacter): string[] {
-    const proficiencies: string[] = [];
-    const modifiers = ddbCharacter.modifiers ?? {};
-
-    Object.values(modifiers)?.forEach(modifierArray => {
-      if (Array.isArray(modifierArray)) {
-        modifierArray.forEach(modifier => {
-          if (
-            modifier.type === 'proficiency' &&
-            modifier.subType?.includes('weapon')
-          ) {
-            proficiencies.push(modifier.friendlySubtypeName ?? modifier.subType);
-          }
-        });
-      }
-    });
-
-    return proficiencies;
-  }
-
-  /**
-   * Parse armor proficiencies from modifiers
+   * Damage traits carry weapon bypasses; situational defenses go in custom.
+   * The arrays are copied so overrides do not write into the memoized traits.
    */
-  private static parseArmorProficiencies(ddbCharacter: DDBCharacter): string[] {
-    const proficiencies: string[] = [];
-    const modifiers = ddbCharacter.modifiers ?? {};
-
-    Object.values(modifiers)?.forEach(modifierArray => {
-      if (Array.isArray(modifierArray)) {
-        modifierArray.forEach(modifier => {
-          if (
-            modifier.type === 'proficiency' &&
-            modifier.subType?.includes('armor')
-          ) {
-            proficiencies.push(modifier.friendlySubtypeName ?? modifier.subType);
-          }
-        });
-      }
-    });
-
-    return proficiencies;
+  private static parseDefenseTrait(trait: DefenseTrait, withBypasses: boolean) {
+    return {
+      value: [...trait.value],
+      ...(withBypasses ? { bypasses: [...trait.bypasses] } : {}),
+      custom: trait.custom.join('; '),
+    };
   }
 
   /**
-   * Parse tool proficiencies from modifiers
+   * Weapon, armor and tool proficiencies as dnd5e keys; unmapped ones go to custom
    */
-  private static parseToolProficiencies(ddbCharacter: DDBCharacter): string[] {
-    const proficiencies: string[] = [];
-    const modifiers = ddbCharacter.modifiers ?? {};
-
-    Object.values(modifiers)?.forEach(modifierArray => {
-      if (Array.isArray(modifierArray)) {
-        modifierArray.forEach(modifier => {
-          if (
-            modifier.type === 'proficiency' &&
-            modifier.subType &&
-            (modifier.subType.includes('tool') || modifier.subType.includes('kit'))
-          ) {
-            proficiencies.push(modifier.friendlySubtypeName || modifier.subType);
-          }
-        });
-      }
-    });
-
-    return proficiencies;
+  private static parseProficiencies(ddbCharacter: DDBCharacter) {
+    return ProficiencyMapper.resolve(ModifierResolver.resolve(ddbCharacter).modifiers);
   }
 
   /**
@@ -391,51 +333,70 @@ export class CharacterParser {
    * Apply skill proficiencies from D&D Beyond modifiers
    */
   private static applySkillProficiencies(ddbCharacter: DDBCharacter, skills: FoundryActor['system']['skills']) {
-    const modifiers = ddbCharacter.modifiers ?? {};
-
-    Object.values(modifiers)?.forEach(modifierArray => {
-      if (Array.isArray(modifierArray)) {
-        modifierArray.forEach(modifier => {
-          if (modifier.type === 'proficiency' && modifier.subType) {
-            const skillKey = this.getSkillKeyFromModifier(modifier);
-            if (skillKey && skills[skillKey]) {
-              skills[skillKey].value = 1; // Proficient
-              Logger.debug(`🎯 Skill proficiency: ${skillKey}`);
-            }
-          }
-
-          if (modifier.type === 'expertise' && modifier.subType) {
-            const skillKey = this.getSkillKeyFromModifier(modifier);
-            if (skillKey && skills[skillKey]) {
-              skills[skillKey].value = 2; // Expertise
-              Logger.debug(`⭐ Skill expertise: ${skillKey}`);
-            }
-          }
-        });
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+
+    Object.entries(resolved.skills).forEach(([skillKey, skill]) => {
+      const target = skills[skillKey];
+      if (!target) return;
+
+      // Jack of All Trades / Remarkable Athlete fill in half proficiency where nothing better applies
+      const halfProficient = resolved.checks[target.ability]?.halfProficient ?? false;
+      target.value = skill.proficient > 0 ? skill.proficient : halfProficient ? 0.5 : 0;
+      target.bonuses = {
+        check: ModifierResolver.formatBonus(skill.bonus),
+        passive: ModifierResolver.formatBonus(skill.passive),
+      };
+      if (skill.advantage) {
+        target.roll = { min: null, max: null, mode: 1 };
+      }
+      if (target.value > 0) {
+        Logger.debug(`🎯 Skill proficiency: ${skillKey} (${target.value})`);
       }
     });
   }
 
   /**
-   * Parse spell-related attributes with comprehensive spell slot calculation
+   * Saves, ability checks and skills with unconditional advantage
+   */
+  private static parseAdvantages(ddbCharacter: DDBCharacter): { saves: string[]; checks: string[]; skills: string[] } {
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+    const withAdvantage = (entries: Record<string, { advantage: boolean }>): string[] =>
+      Object.entries(entries).filter(([, entry]) => entry.advantage).map(([key]) => key);
+
+    return {
+      saves: withAdvantage(resolved.saves),
+      checks: withAdvantage(resolved.checks),
+      skills: withAdvantage(resolved.skills),
+    };
+  }
+
+  /**
+   * dnd5e character flags so the system applies half proficiency to
+   * initiative and unlisted checks the same way D&D Beyond does
+   */
+  private static parseCharacterFlags(
+    ddbCharacter: DDBCharacter
+  ): { jackOfAllTrades: boolean; remarkableAthlete: boolean; initiativeAdv: boolean; powerfulBuild: boolean } {
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+    return {
+      jackOfAllTrades: resolved.jackOfAllTrades,
+      remarkableAthlete: resolved.remarkableAthlete,
+      initiativeAdv: resolved.initiative.advantage,
+      powerfulBuild: EncumbranceCalculator.hasPowerfulBuild(ddbCharacter),
+    };
+  }
+
+
+  /**
+   * Parse spell-related attributes, combining slots across all classes
+   * with the multiclass spellcaster rules and Warlock Pact Magic
    */
   private static parseSpells(ddbCharacter: DDBCharacter) {
-    const primaryClass = this.getPrimarySpellcastingClass(ddbCharacter);
-    const spellSlots = primaryClass
-      ? this.calculateSpellSlots(primaryClass.definition.name, primaryClass.level)
-      : {};
+    const { slots, pact } = SpellSlotCalculator.calculate(ddbCharacter);
 
     return {
-      spell1: { value: spellSlots.spell1 ?? 0, override: null, max: spellSlots.spell1 ?? 0 },
-      spell2: { value: spellSlots.spell2 ?? 0, override: null, max: spellSlots.spell2 ?? 0 },
-      spell3: { value: spellSlots.spell3 ?? 0, override: null, max: spellSlots.spell3 ?? 0 },
-      spell4: { value: spellSlots.spell4 ?? 0, override: null, max: spellSlots.spell4 ?? 0 },
-      spell5: { value: spellSlots.spell5 ?? 0, override: null, max: spellSlots.spell5 ?? 0 },
-      spell6: { value: spellSlots.spell6 ?? 0, override: null, max: spellSlots.spell6 ?? 0 },
-      spell7: { value: spellSlots.spell7 ?? 0, override: null, max: spellSlots.spell7 ?? 0 },
-      spell8: { value: spellSlots.spell8 ?? 0, override: null, max: spellSlots.spell8 ?? 0 },
-      spell9: { value: spellSlots.spell9 ?? 0, override: null, max: spellSlots.spell9 ?? 0 },
-      pact: { value: 0, override: null, max: 0, level: 1 },
+      ...slots,
+      pact,
       spells0: { value: 0, max: 0 },
       spells1: { value: 0, max: 0 },
       spells2: { value: 0, max: 0 },
@@ -450,45 +411,87 @@ export class CharacterParser {
   }
 
   /**
-   * Parse character resources (inspiration, etc.)
+   * Parse class resource pools (Ki, Rage, Sorcery Points, ...) into actor resources
    */
-  private static parseResources(_ddbCharacter: DDBCharacter): Record<string, FoundryResource> {
-    return {
-      primary: { value: 0, max: 0, sr: false, lr: false, label: '' },
-      secondary: { value: 0, max: 0, sr: false, lr: false, label: '' },
-      tertiary: { value: 0, max: 0, sr: false, lr: false, label: '' },
-    };
+  private static parseResources(ddbCharacter: DDBCharacter): Record<string, FoundryResource> {
+    return ClassResourceParser.toFoundryResources(ClassResourceParser.getResources(ddbCharacter));
   }
 
   // Helper methods
 
-  private static isProficientInSave(_ddbCharacter: DDBCharacter, _abilityId: number): number {
-    return 0;
+  private static isProficientInSave(ddbCharacter: DDBCharacter, abilityId: number): number {
+    const abilityKey = this.getAbilityKey(abilityId);
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+    const proficient = resolved.saves[abilityKey]?.proficient ?? 0;
+    if (proficient > 0) return proficient;
+
+    // Older payloads use a generic subType keyed by entityId
+    const legacy = ModifierResolver.filterModifiers(resolved.modifiers, 'proficiency', 'saving-throws');
+    return legacy.some(modifier => modifier.entityId === abilityId) ? 1 : 0;
   }
 
   private static parseMovement(ddbCharacter: DDBCharacter) {
+    const speeds = ModifierResolver.resolve(ddbCharacter).speeds;
+    const raceSpeeds = ddbCharacter.race?.weightSpeeds?.normal ?? {};
+    const custom = this.getCustomValues(ddbCharacter.customSpeeds, 'movementId', MOVEMENT_IDS);
+
+    // Monk Unarmored Movement only applies without armor or a shield
+    const armored = (ddbCharacter.inventory ?? []).some(
+      item => item.equipped && item.definition && [1, 2, 3, 4].includes(this.getArmorTypeId(item))
+    );
+    const baseWalk = Math.max(raceSpeeds.walk ?? 30, speeds.set.walk ?? 0);
+    const walk = custom.walk ?? baseWalk + speeds.bonus.walk + (armored ? 0 : speeds.unarmoredBonus);
+
+    const speedFor = (movement: 'burrow' | 'climb' | 'fly' | 'swim'): number => {
+      if (custom[movement] !== undefined) return custom[movement];
+      const base = Math.max(raceSpeeds[movement] ?? 0, speeds.set[movement] ?? 0);
+      if (speeds.equalToWalk.includes(movement)) return Math.max(base + speeds.bonus[movement], walk);
+      return base > 0 ? base + speeds.bonus[movement] : 0;
+    };
+
     return {
-      burrow: 0,
-      climb: 0,
-      fly: 0,
-      swim: 0,
-      walk: ddbCharacter.race?.weightSpeeds?.normal?.walk ?? 30,
+      burrow: speedFor('burrow'),
+      climb: speedFor('climb'),
+      fly: speedFor('fly'),
+      swim: speedFor('swim'),
+      walk,
       units: 'ft',
-      hover: false,
+      hover: speeds.hover,
     };
   }
 
-  private static parseSenses(_ddbCharacter: DDBCharacter): FoundryActor['system']['attributes']['senses'] {
+
+  private static parseSenses(ddbCharacter: DDBCharacter): FoundryActor['system']['attributes']['senses'] {
+    const resolved = ModifierResolver.resolve(ddbCharacter);
+    const custom = this.getCustomValues(ddbCharacter.customSenses, 'senseId', SENSE_IDS);
+    const sense = (key: string): number => custom[key] ?? resolved.senses[key] ?? 0;
     return {
-      darkvision: 0,
-      blindsight: 0,
-      tremorsense: 0,
-      truesight: 0,
+      darkvision: sense('darkvision'),
+      blindsight: sense('blindsight'),
+      tremorsense: sense('tremorsense'),
+      truesight: sense('truesight'),
       units: 'ft',
-      special: '',
+      special: resolved.specialSenses.join(', '),
     };
   }
 
+  /**
+   * Map DDB customSenses / customSpeeds entries (user overrides on the character sheet) by Foundry key
+   */
+  private static getCustomValues<K extends 'senseId' | 'movementId'>(
+    entries: Array<Record<K, number> & { distance: number | null }> | undefined,
+    idKey: K,
+    idMap: Record<number, string>
+  ): Record<string, number> {
+    const values: Record<string, number> = {};
+    (entries ?? []).forEach(entry => {
+      const key = idMap[entry[idKey]];
+      if (key && typeof entry.distance === 'number') values[key] = entry.distance;
+    });
+    return values;
+  }
+
+
   private static calculateProficiencyBonus(classes: DDBClass[]): number {
     const totalLevel = classes.reduce((sum, cls) => sum + (cls.level ?? 0), 0);
     return Math.ceil(totalLevel / 4) + 1;
@@ -521,78 +524,303 @@ export class CharacterParser {
     return alignments[alignmentId] ?? 'n';
   }
 
-  private static parseSize(size: string): string {
-    const sizeMap: Record<string, string> = {
-      tiny: 'tiny',
-      small: 'sm',
-      medium: 'med',
-      large: 'lg',
-      huge: 'huge',
-      gargantuan: 'grg',
-    };
-    return sizeMap[size.toLowerCase()] ?? 'med';
-  }
-
   /**
    * Parse enhanced attributes with spellcasting and encumbrance
    * (Enhanced: death saves, exhaustion, attunement)
    */
   private static parseEnhancedAttributes(ddbCharacter: DDBCharacter): FoundryActor['system']['attributes'] {
     const totalLevel = CharacterParser.getTotalLevel(ddbCharacter);
-    const constitutionMod = CharacterParser.getAbilityModifier(CharacterParser.getAbilityScore(ddbCharacter, 3));
-    const baseHP = ddbCharacter.baseHitPoints ?? 0;
-    const bonusHP = ddbCharacter.bonusHitPoints ?? 0;
-    const overrideHP = ddbCharacter.overrideHitPoints;
-    const removedHP = ddbCharacter.removedHitPoints ?? 0;
-    let maxHP;
-    if (overrideHP !== null && overrideHP !== undefined) {
-      maxHP = overrideHP;
-    } else {
-      maxHP = baseHP + constitutionMod * totalLevel + bonusHP;
-    }
-    const currentHP = Math.max(0, maxHP - removedHP);
-    // Spellcasting attributes
-    const primaryClass = CharacterParser.getPrimarySpellcastingClass(ddbCharacter);
-    const spellcastingAbility = CharacterParser.getSpellcastingAbility(primaryClass);
-    const spellcastingMod = CharacterParser.getAbilityModifier(
-      CharacterParser.getAbilityScore(ddbCharacter, CharacterParser.getStatIdForAbility(spellcastingAbility))
-    );
+    const hitPoints = CharacterParser.calculateHitPoints(ddbCharacter);
+    // Actor-level spellcasting follows the highest level caster class; each class item carries its own
+    const primarySpellcasting = CharacterParser.getPrimarySpellcasting(ddbCharacter);
     const profBonus = CharacterParser.getProficiencyBonus(totalLevel);
-    // Add death saves and exhaustion if present
-    // DDB v5 API: only isStabilized is present, so we cannot map successes/failures yet
-    // If DDB adds these, map as: success: deathSaves.successes ?? 0, failure: deathSaves.failures ?? 0
-    // const deathSaves = ddbCharacter.deathSaves ?? {}; // Only isStabilized currently
-    // const exhaustion = ddbCharacter.exhaustion ?? 0; // Not present in DDBCharacter, left for future
-    // Calculate attunement from inventory
+    const initiative = ModifierResolver.resolve(ddbCharacter).initiative;
+    const deathSaves = ddbCharacter.deathSaves ?? {};
     return {
-      ac: { flat: null, calc: 'default', formula: '' },
+      ac: CharacterParser.calculateArmorClass(ddbCharacter).ac,
       hp: {
-        value: currentHP,
-        max: maxHP,
-        temp: ddbCharacter.temporaryHitPoints ?? 0,
+        value: hitPoints.value,
+        max: hitPoints.max,
+        temp: hitPoints.temp,
         tempmax: 0,
       },
       // attunement: { value: attunementValue }, // Future mapping if DDB exposes attunement fields
       movement: CharacterParser.parseMovement(ddbCharacter),
       senses: CharacterParser.parseSenses(ddbCharacter),
-      spellcasting: spellcastingAbility,
+      // Jack of All Trades and Remarkable Athlete reach initiative through the dnd5e flags
+      init: {
+        ability: 'dex',
+        bonus: ModifierResolver.formatBonus(initiative.bonus),
+      },
+      spellcasting: primarySpellcasting?.ability ?? 'int',
       prof: profBonus,
-      spelldc: 8 + profBonus + spellcastingMod,
+      spelldc: primarySpellcasting?.dc ?? 8 + profBonus,
+      inspiration: ddbCharacter.inspiration ?? false,
+      death: {
+        // A stabilized character has effectively rolled three successes
+        success: deathSaves.isStabilized ? 3 : (deathSaves.successCount ?? 0),
+        failure: deathSaves.failCount ?? 0,
+      },
+      exhaustion: CharacterParser.getExhaustionLevel(ddbCharacter),
       encumbrance: CharacterParser.parseEncumbrance(ddbCharacter),
     };
   }
 
   /**
-   * Parse encumbrance system
+   * Milestone characters have no XP on DDB, so they import at the threshold for their level
+   */
+  private static parseExperience(ddbCharacter: DDBCharacter): FoundryActor['system']['details']['xp'] {
+    const level = this.getTotalLevel(ddbCharacter);
+    const min = this.getXpForLevel(level);
+    const max = level >= 20 ? min : this.getXpForLevel(level + 1);
+    const value = this.isMilestone(ddbCharacter) ? min : (ddbCharacter.currentXp ?? 0);
+    const pct = max > min ? Math.min(100, Math.max(0, Math.round(((value - min) / (max - min)) * 100))) : 100;
+    return { value, max, pct };
+  }
+
+  private static isMilestone(ddbCharacter: DDBCharacter): boolean {
+    return ddbCharacter.preferences?.progressionType === 1;
+  }
+
+  private static getExhaustionLevel(ddbCharacter: DDBCharacter): number {
+    const exhaustion = ddbCharacter.conditions?.find(condition => condition.id === EXHAUSTION_CONDITION_ID);
+    return Math.min(6, Math.max(0, exhaustion?.level ?? 0));
+  }
+
+  /**
+   * Calculate hit points the way D&D Beyond does: hit dice (first level maxed, average
+   * afterwards), CON modifier per level, per-level bonuses (Tough, Dwarven Toughness,
+   * Draconic Resilience), flat modifiers and the manual bonus, with the override winning
+   */
+  private static calculateHitPoints(ddbCharacter: DDBCharacter): HitPointBreakdown {
+    const totalLevel = this.getTotalLevel(ddbCharacter);
+    const classes = ddbCharacter.classes ?? [];
+    // Hit points are stored, not derived by dnd5e, so effect-backed modifiers count here too
+    const modifiers = ModifierResolver.resolve(ddbCharacter, { includeTransferred: true }).modifiers;
+    const constitution =
+      this.getAbilityModifier(this.getAbilityScore(ddbCharacter, 3, { includeTransferred: true })) * totalLevel;
+
+    const startingClass = this.getStartingClass(ddbCharacter);
+    const averageBase = classes.reduce((total, cls) => {
+      const hitDie = cls.definition?.hitDie ?? 8;
+      const average = Math.floor(hitDie / 2) + 1;
+      const levels = cls.level ?? 0;
+      return total + (cls === startingClass ? hitDie + average * (levels - 1) : average * levels);
+    }, 0);
+    const hasDdbBase = typeof ddbCharacter.baseHitPoints === 'number' && ddbCharacter.baseHitPoints > 0;
+    const base = hasDdbBase ? (ddbCharacter.baseHitPoints as number) : averageBase;
+
+    // Per-level bonuses granted by a class feature only scale with that class's levels
+    const perLevelBonus = ModifierResolver.filterModifiers(modifiers, 'bonus', 'hit-points-per-level')
+      .filter(modifier => !ModifierResolver.isConditional(modifier))
+      .reduce((total, modifier) => {
+        const owningClass = modifier.source === 'class' ? this.findClassForComponent(ddbCharacter, modifier.componentId) : null;
+        return total + ModifierResolver.getValue(modifier) * (owningClass?.level ?? totalLevel);
+      }, 0);
+    const modifierBonus = ModifierResolver.sum(ModifierResolver.filterModifiers(modifiers, 'bonus', 'hit-points'));
+    const manualBonus = ddbCharacter.bonusHitPoints ?? 0;
+    const override = typeof ddbCharacter.overrideHitPoints === 'number' ? ddbCharacter.overrideHitPoints : null;
+
+    const calculated = Math.max(totalLevel, base + constitution + perLevelBonus + modifierBonus + manualBonus);
+    const max = override ?? calculated;
+    const removed = ddbCharacter.removedHitPoints ?? 0;
+
+    return {
+      base,
+      baseSource: hasDdbBase ? 'ddb' : 'average',
+      constitution,
+      perLevelBonus,
+      modifierBonus,
+      manualBonus,
+      override,
+      max,
+      removed,
+      value: Math.max(0, max - removed),
+      temp: ddbCharacter.temporaryHitPoints ?? 0,
+    };
+  }
+
+  /**
+   * The class the character started with (gets the maximum hit die at first level)
+   */
+  private static getStartingClass(ddbCharacter: DDBCharacter): DDBClass | null {
+    const classes = ddbCharacter.classes ?? [];
+    return classes.find(cls => cls.isStartingClass) ?? classes[0] ?? null;
+  }
+
+  /**
+   * Find the class whose (sub)class features include the given component id
+   */
+  private static findClassForComponent(ddbCharacter: DDBCharacter, componentId?: number): DDBClass | null {
+    if (componentId === undefined) return null;
+    return (
+      ddbCharacter.classes?.find(cls =>
+        [...(cls.classFeatures ?? []), ...(cls.subclassDefinition?.classFeatures ?? [])].some(
+          feature => feature.id === componentId || feature.definition?.id === componentId
+        )
+      ) ?? null
+    );
+  }
+
+  /**
+   * Resolve armor class from equipped armor and shields, unarmored defense features,
+   * natural armor and AC modifiers, choosing the dnd5e calculation mode that reproduces it
+   */
+  private static calculateArmorClass(ddbCharacter: DDBCharacter): {
+    ac: FoundryActor['system']['attributes']['ac'];
+    breakdown: ArmorClassBreakdown;
+  } {
+    const modifiers = ModifierResolver.resolve(ddbCharacter).modifiers;
+    const allModifiers = ModifierResolver.resolve(ddbCharacter, { includeTransferred: true }).modifiers;
+    const abilityMod = (statId: number) =>
+      this.getAbilityModifier(this.getAbilityScore(ddbCharacter, statId, { includeTransferred: true }));
+    const dexMod = abilityMod(2);
+
+    const equipped = (ddbCharacter.inventory ?? []).filter(item => item.equipped && item.definition);
+    const armor = equipped
+      .filter(item => [1, 2, 3].includes(this.getArmorTypeId(item)))
+      .sort((a, b) => (b.definition.armorClass ?? 0) - (a.definition.armorClass ?? 0))[0];
+    const shield = equipped.find(item => this.getArmorTypeId(item) === 4);
+    const shieldValue = shield ? (shield.definition.armorClass ?? 2) : 0;
+
+    type Candidate = Pick<ArmorClassBreakdown, 'source' | 'label' | 'base' | 'calc'> & { formula: string };
+    const candidates: Candidate[] = [];
+    // Bonuses carried by item/feat effects are applied by dnd5e, not baked into the formula
+    const bonusSubTypes = ['armor-class', armor ? 'armored-armor-class' : 'unarmored-armor-class'];
+    const bonus = ModifierResolver.sum(ModifierResolver.filterModifiers(modifiers, 'bonus', bonusSubTypes));
+    const effects = ModifierResolver.sum(ModifierResolver.filterModifiers(allModifiers, 'bonus', bonusSubTypes)) - bonus;
+
+    if (armor) {
+      const armorTypeId = this.getArmorTypeId(armor);
+      const dexPart = armorTypeId === 3 ? 0 : armorTypeId === 2 ? Math.min(dexMod, 2) : dexMod;
+      candidates.push({
+        source: 'armor',
+        label: armor.definition.name,
+        base: (armor.definition.armorClass ?? 10) + dexPart,
+        calc: 'default',
+        formula: '@attributes.ac.armor + @attributes.ac.dex',
+      });
+    } else {
+      candidates.push({
+        source: 'unarmored',
+        label: 'Unarmored',
+        base: 10 + dexMod,
+        calc: 'default',
+        formula: '@attributes.ac.armor + @attributes.ac.dex',
+      });
+      ModifierResolver.filterModifiers(modifiers, 'set', 'unarmored-armor-class').forEach(modifier => {
+        const value = ModifierResolver.getValue(modifier);
+        const statId = modifier.statId ?? null;
+        // Monk Unarmored Defense only works without a shield
+        if (statId === 5 && shield) return;
+        if (statId === 5) {
+          candidates.push({
+            source: 'unarmoredMonk',
+            label: 'Unarmored Defense (WIS)',
+            base: 10 + dexMod + abilityMod(5) + value,
+            calc: value === 0 ? 'unarmoredMonk' : 'custom',
+            formula: `10 + @abilities.dex.mod + @abilities.wis.mod${this.formatFormulaBonus(value)}`,
+          });
+        } else if (statId === 3) {
+          candidates.push({
+            source: 'unarmoredBarb',
+            label: 'Unarmored Defense (CON)',
+            base: 10 + dexMod + abilityMod(3) + value,
+            calc: value === 0 ? 'unarmoredBarb' : 'custom',
+            formula: `10 + @abilities.dex.mod + @abilities.con.mod${this.formatFormulaBonus(value)}`,
+          });
+        } else if (statId) {
+          const abilityKey = this.getAbilityKey(statId);
+          candidates.push({
+            source: 'unarmored',
+            label: `Unarmored Defense (${abilityKey.toUpperCase()})`,
+            base: 10 + dexMod + abilityMod(statId) + value,
+            calc: 'custom',
+            formula: `10 + @abilities.dex.mod + @abilities.${abilityKey}.mod${this.formatFormulaBonus(value)}`,
+          });
+        } else if (value > 0) {
+          // Draconic Resilience, Lizardfolk natural armor: 10 + value + DEX
+          candidates.push({
+            source: 'natural',
+            label: modifier.friendlySubtypeName || 'Natural Armor',
+            base: 10 + value + dexMod,
+            calc: 'natural',
+            formula: '',
+          });
+        }
+      });
+    }
+
+    // Flat natural armor that ignores DEX (e.g. Tortle shell)
+    ModifierResolver.filterModifiers(modifiers, 'set', 'armor-class').forEach(modifier => {
+      candidates.push({
+        source: 'flat',
+        label: modifier.friendlySubtypeName || 'Natural Armor',
+        base: ModifierResolver.getValue(modifier),
+        calc: 'natural',
+        formula: '',
+      });
+    });
+
+    const best = candidates.reduce((prev, current) => (current.base > prev.base ? current : prev), candidates[0]);
+    const total = best.base + shieldValue + bonus + effects;
+
+    let ac: FoundryActor['system']['attributes']['ac'];
+    if (best.calc === 'natural') {
+      // Natural armor is stored without the shield; dnd5e adds equipped shields on top
+      ac = { flat: best.base + bonus, calc: 'natural', formula: '' };
+    } else if (bonus !== 0 || best.calc === 'custom') {
+      ac = { flat: null, calc: 'custom', formula: `${best.formula}${this.formatFormulaBonus(bonus)}` };
+    } else {
+      ac = { flat: null, calc: best.calc, formula: '' };
+    }
+
+    Logger.debug(`🛡️ AC ${total} from ${best.label} (${ac.calc})`);
+    return {
+      ac,
+      breakdown: {
+        source: best.source,
+        label: best.label,
+        calc: ac.calc,
+        base: best.base,
+        shield: shieldValue,
+        bonus,
+        effects,
+        total,
+      },
+    };
+  }
+
+  /**
+   * DDB armor type: 1 = light, 2 = medium, 3 = heavy, 4 = shield (0 = not armor)
+   */
+  private static getArmorTypeId(item: DDBItem): number {
+    if (typeof item.definition.armorTypeId === 'number') return item.definition.armorTypeId;
+    const typeMap: Record<string, number> = {
+      'light armor': 1,
+      'medium armor': 2,
+      'heavy armor': 3,
+      shield: 4,
+    };
+    return typeMap[item.definition.type?.toLowerCase() ?? ''] ?? 0;
+  }
+
+  private static formatFormulaBonus(value: number): string {
+    if (value === 0) return '';
+    return value > 0 ? ` + ${value}` : ` - ${Math.abs(value)}`;
+  }
+
+  /**
+   * Carried weight and capacity from the inventory, coins, size and the
+   * character's encumbrance rule
    */
   private static parseEncumbrance(ddbCharacter: DDBCharacter): FoundryActor['system']['attributes']['encumbrance'] {
-    const strengthScore = CharacterParser.getAbilityScore(ddbCharacter, 1);
-    const carryingCapacity = strengthScore * 15;
+    const encumbrance = EncumbranceCalculator.calculate(ddbCharacter);
     return {
-      value: 0,
-      max: carryingCapacity,
-      pct: 0,
-      encumbered: false,
+      value: encumbrance.current,
+      max: encumbrance.max,
+      pct: encumbrance.percentage,
+      encumbered: encumbrance.encumbered,
     };
   }
 
@@ -601,6 +829,8 @@ export class CharacterParser {
    */
   private static parseAllItems(ddbCharacter: DDBCharacter): FoundryItemData[] {
     let items: FoundryItemData[] = [];
+    items = items.concat(this.parseClassItems(ddbCharacter));
+    items = items.concat(this.parseOriginItems(ddbCharacter));
     items = items.concat(this.parseEquipment(ddbCharacter));
     items = items.concat(this.parseSpellItems(ddbCharacter));
     items = items.concat(this.parseFeatures(ddbCharacter));
@@ -608,24 +838,47 @@ export class CharacterParser {
   }
 
   /**
-   * Parse active effects (simplified for now)
+   * Class and subclass items with levels, hit dice spent, hit point advancement
+   * and each class's spellcasting ability, DC and attack bonus
    */
-  private static parseActiveEffects(_ddbCharacter: DDBCharacter): unknown[] {
-    return [];
+  private static parseClassItems(ddbCharacter: DDBCharacter): FoundryItemData[] {
+    return ClassParser.parseCharacterClasses(ddbCharacter);
+  }
+
+  /**
+   * Race and background items with size, creature type, racial movement and
+   * senses, and the proficiencies and languages each grants
+   */
+  private static parseOriginItems(ddbCharacter: DDBCharacter): FoundryItemData[] {
+    return [RaceParser.parseCharacterRace(ddbCharacter), BackgroundParser.parseCharacterBackground(ddbCharacter)]
+      .filter((item): item is FoundryItemData => item !== null);
+  }
+
+  /**
+   * Active conditions as dnd5e status effects. Item and feat effects live on
+   * the embedded documents that own them.
+   */
+  private static parseActiveEffects(ddbCharacter: DDBCharacter): FoundryActiveEffect[] {
+    return (ddbCharacter.conditions ?? [])
+      .filter(condition => condition.id !== EXHAUSTION_CONDITION_ID)
+      .map(condition => CONDITION_IDS[condition.id])
+      .filter((status): status is string => Boolean(status))
+      .map(status => ({
+        name: status.charAt(0).toUpperCase() + status.slice(1),
+        img: `systems/dnd5e/icons/svg/statuses/${status}.svg`,
+        transfer: false,
+        disabled: false,
+        statuses: [status],
+        changes: [],
+        flags: { 'beyond-foundry': { condition: true } },
+      }));
   }
 
   /**
    * Parse character bonuses
    */
-  private static parseBonuses(_ddbCharacter: DDBCharacter): FoundryActor['system']['bonuses'] {
-    return {
-      mwak: { attack: '', damage: '' },
-      rwak: { attack: '', damage: '' },
-      msak: { attack: '', damage: '' },
-      rsak: { attack: '', damage: '' },
-      abilities: { check: '', save: '', skill: '' },
-      spell: { dc: '' },
-    };
+  private static parseBonuses(ddbCharacter: DDBCharacter): FoundryActor['system']['bonuses'] {
+    return ModifierResolver.resolve(ddbCharacter).bonuses;
   }
 
   /**
@@ -637,7 +890,7 @@ export class CharacterParser {
     if (ddbCharacter.inventory) {
       ddbCharacter.inventory.forEach(item => {
         try {
-          const foundryItem = this.parseInventoryItem(item);
+          const foundryItem = this.parseInventoryItem(item, ddbCharacter);
           if (foundryItem) {
             items.push(foundryItem);
           }
@@ -654,13 +907,13 @@ export class CharacterParser {
   /**
    * Parse individual inventory item
    */
-  private static parseInventoryItem(ddbItem: DDBItem): FoundryItemData | null {
+  private static parseInventoryItem(ddbItem: DDBItem, ddbCharacter: DDBCharacter): FoundryItemData | null {
     if (!ddbItem.definition) return null;
 
     const definition = ddbItem.definition;
     const itemType = this.getFoundryItemType({ filterType: definition.type });
 
-    return {
+    const foundryItem: FoundryItemData = {
       name: definition.name,
       type: itemType,
       img: definition.avatarUrl ?? this.getDefaultIcon(itemType),
@@ -673,38 +926,46 @@ export class CharacterParser {
         rarity: definition.rarity?.toLowerCase() ?? 'common',
         identified: true,
         attuned: ddbItem.isAttuned ?? false,
+        ...(ddbItem.limitedUse?.maxUses ? { uses: ItemParser.parseCharges(ddbItem) } : {}),
       },
+      effects: ActiveEffectGenerator.forItem(ddbItem, ddbCharacter),
       flags: {
         'beyond-foundry': {
           ddbId: definition.id,
+          inventoryId: ddbItem.id,
           ddbType: definition.type,
           // isHomebrew: definition.isHomebrew ?? false, // Removed as not present in type
         },
       },
     };
+    return CharacterOverrides.applyToItem(foundryItem, ddbItem.id, ddbCharacter);
   }
 
   /**
-   * Parse spell items
+   * Parse spell items. Known and prepared spells come from classSpells, one
+   * entry per class, and class feature spells are cast with their class (both via
+   * SpellParser.parseClassSpells); race, feat, item and background spells are innate,
+   * at-will or limited-use and are parsed by SpellParser.parseGrantedSpells.
    */
   private static parseSpellItems(ddbCharacter: DDBCharacter): FoundryItemData[] {
     const spellItems: FoundryItemData[] = [];
 
-    if (ddbCharacter.spells) {
-      Object.values(ddbCharacter.spells).forEach(spellArray => {
-        if (Array.isArray(spellArray)) {
-          spellArray.forEach(spell => {
-            try {
-              const spellItem = this.parseSpellItem(spell);
-              if (spellItem) {
-                spellItems.push(spellItem);
-              }
-            } catch (error) {
-              Logger.error(`Spell parsing error: ${(error as Error).message}`);
-            }
-          });
-        }
-      });
+    try {
+      spellItems.push(...(SpellParser.parseClassSpells(ddbCharacter) as unknown as FoundryItemData[]));
+    } catch (error) {
+      Logger.error(`Class spell parsing error: ${(error as Error).message}`);
+    }
+
+    try {
+      // Scroll spells are cast from the scroll item instead
+      const scrollIds = new Set<number | undefined>(
+        (ddbCharacter.inventory ?? []).filter(item => ItemParser.isSpellScroll(item)).map(item => item.definition.id)
+      );
+      const grantedSpells = SpellParser.parseGrantedSpells(ddbCharacter)
+        .filter(spell => !scrollIds.has(spell.flags['beyond-foundry'].grantedBy?.componentId));
+      spellItems.push(...(grantedSpells as unknown as FoundryItemData[]));
+    } catch (error) {
+      Logger.error(`Granted spell parsing error: ${(error as Error).message}`);
     }
 
     Logger.debug(`🔮 Parsed ${spellItems.length} spell items`);
@@ -712,63 +973,63 @@ export class CharacterParser {
   }
 
   /**
-   * Parse individual spell item
-   */
-  private static parseSpellItem(ddbSpell: DDBSpell): FoundryItemData | null {
-    if (!ddbSpell.definition) return null;
-
-    const definition = ddbSpell.definition;
-
-    return {
-      name: definition.name,
-      type: 'spell',
-      img: 'icons/magic/symbols/rune-sigil-black-pink.webp',
-      system: {
-        description: { value: definition.description ?? '' },
-        level: definition.level ?? 0,
-        school: definition.school?.toLowerCase() ?? 'evocation',
-        components: {
-          vocal: definition.components?.verbal ?? false,
-          somatic: definition.components?.somatic ?? false,
-          material: definition.components?.material ?? false,
-          ritual: definition.ritual ?? false,
-          concentration: definition.concentration ?? false,
-        },
-        materials: { value: definition.components?.materialComponent ?? '' },
-        preparation: { mode: 'prepared', prepared: ddbSpell.prepared ?? false },
-        scaling: { mode: 'none', formula: '' },
-        range: { value: null, units: 'ft' },
-        target: { value: null, width: null, units: '', type: '' },
-        duration: { value: null, units: '' },
-        activation: { type: 'action', cost: 1, condition: '' },
-      },
-      flags: {
-        'beyond-foundry': {
-          ddbId: definition.id,
-          spellListId: typeof ddbSpell.spellListId === 'number' ? ddbSpell.spellListId : undefined,
-        },
-      },
-    };
-  }
-
-  /**
-   * Parse features (simplified for now)
+   * Parse features. Class features and feats are embedded and linked to the
+   * class resource pools (Ki, Rage, ...) they own or spend.
    */
   private static parseFeatures(ddbCharacter: DDBCharacter): FoundryItemData[] {
+    const features = [...this.parseClassFeatures(ddbCharacter), ...this.parseFeats(ddbCharacter)];
+    ClassResourceParser.linkFeatureUses(features, ClassResourceParser.getResources(ddbCharacter));
     return [
-      ...this.parseClassFeatures(ddbCharacter),
+      ...features.map(feature => this.toEmbeddedFeature(feature)),
       ...this.parseSubclassFeatures(ddbCharacter),
       ...this.parseRacialTraits(ddbCharacter),
       ...this.parseBackgroundFeature(ddbCharacter),
-      ...this.parseFeats(ddbCharacter),
       ...this.parseOptionalClassFeatures(ddbCharacter),
     ];
   }
-  private static parseClassFeatures(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
+  /**
+   * Class and subclass features the character has reached, as dnd5e class features
+   */
+  private static parseClassFeatures(ddbCharacter: DDBCharacter): FoundryItem[] {
+    const entries: DDBClassFeature[] = [
+      ...((ddbCharacter.classFeatures as DDBClassFeature[] | undefined) ?? []),
+      ...(ddbCharacter.classes ?? []).flatMap(cls =>
+        [...(cls.classFeatures ?? []), ...(cls.subclassDefinition?.classFeatures ?? [])]
+          .filter(entry => (entry.definition?.level ?? entry.requiredLevel ?? 0) <= cls.level)
+      ),
+    ];
+    const seen = new Set<number>();
+    return entries.flatMap(entry => {
+      if (!entry.definition || seen.has(entry.definition.id)) return [];
+      seen.add(entry.definition.id);
+      const feature = FeatureParser.parseFeature({ ...entry, id: entry.definition.id } as unknown as DDBFeature, 'feat');
+      if (!feature) return [];
+      feature.system.type = { value: 'class', subtype: '' };
+      return [feature];
+    });
+  }
   private static parseSubclassFeatures(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
   private static parseRacialTraits(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
   private static parseBackgroundFeature(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
-  private static parseFeats(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
+  /**
+   * Feats are embedded so their modifiers can travel with them as transferable effects
+   */
+  private static parseFeats(ddbCharacter: DDBCharacter): FoundryItem[] {
+    return (ddbCharacter.feats ?? []).flatMap(feat => {
+      const feature = FeatureParser.parseFeature({ ...feat, id: feat.definition.id } as DDBFeature, 'feat');
+      if (!feature) return [];
+      feature.effects = FeatureParser.parseActiveEffects(ddbCharacter, feature, 'feat');
+      return [feature];
+    });
+  }
+  /**
+   * Item data for an embedded feature. Pool owners carry a static Foundry id,
+   * which features spending the pool as charges point at.
+   */
+  private static toEmbeddedFeature(feature: FoundryItem): FoundryItemData {
+    const { id, ...data } = feature.toObject() as FoundryItemData & { id?: string };
+    return id && /^[a-zA-Z0-9]{16}$/.test(id) ? { ...data, _id: id } : data;
+  }
   private static parseOptionalClassFeatures(_ddbCharacter: DDBCharacter): FoundryItemData[] { return []; }
 
   // Only one implementation of getPrimaryClass
@@ -781,12 +1042,15 @@ export class CharacterParser {
     return primaryClass.definition?.name ?? '';
   }
 
-  // Only one implementation of getPrimarySpellcastingClass
-  private static getPrimarySpellcastingClass(ddbCharacter: DDBCharacter): DDBClass | null {
-    if (!ddbCharacter.classes || ddbCharacter.classes.length === 0) return null;
-    const spellcastingClasses = ddbCharacter.classes.filter(cls => CharacterParser.isSpellcastingClass(cls.definition?.name ?? ''));
-    if (spellcastingClasses.length === 0) return null;
-    return spellcastingClasses.reduce((prev, current) => (current.level ?? 0) > (prev.level ?? 0) ? current : prev, spellcastingClasses[0]);
+  /**
+   * Spellcasting of the highest level caster class
+   */
+  private static getPrimarySpellcasting(ddbCharacter: DDBCharacter): ClassSpellcasting | null {
+    const levels = new Map((ddbCharacter.classes ?? []).map(cls => [cls.id, cls.level ?? 0]));
+    return SpellcastingCalculator.calculate(ddbCharacter).reduce<ClassSpellcasting | null>(
+      (primary, current) => (!primary || (levels.get(current.classId) ?? 0) > (levels.get(primary.classId) ?? 0) ? current : primary),
+      null
+    );
   }
 
   private static getXpForLevel(level: number): number {
@@ -795,42 +1059,6 @@ export class CharacterParser {
     return xpTable[level - 1] ?? 0;
   }
 
-  private static getSkillKeyFromModifier(modifier: { subType?: string }): string {
-    // Extract skill key from modifier subType (e.g., 'skill-arcana' -> 'arc')
-    if (!modifier.subType) return '';
-    const regex = /skill-(\w+)/;
-    const match = regex.exec(modifier.subType);
-    return match ? match[1].substring(0, 3) : '';
-  }
-
-  private static calculateSpellSlots(className: string, level: number): Record<string, number> {
-    // Basic spell slot progression for full casters (D&D 5e SRD)
-    // For half/third/unique casters, this should be expanded in the future.
-    const slotTable: Record<number, Record<string, number>> = {
-      1: { spell1: 2 },
-      2: { spell1: 3 },
-      3: { spell1: 4, spell2: 2 },
-      4: { spell1: 4, spell2: 3 },
-      5: { spell1: 4, spell2: 3, spell3: 2 },
-      6: { spell1: 4, spell2: 3, spell3: 3 },
-      7: { spell1: 4, spell2: 3, spell3: 3, spell4: 1 },
-      8: { spell1: 4, spell2: 3, spell3: 3, spell4: 2 },
-      9: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 1 },
-      10: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2 },
-      11: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1 },
-      12: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1 },
-      13: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1, spell7: 1 },
-      14: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1, spell7: 1 },
-      15: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1, spell7: 1, spell8: 1 },
-      16: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1, spell7: 1, spell8: 1 },
-      17: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 2, spell6: 1, spell7: 1, spell8: 1, spell9: 1 },
-      18: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 3, spell6: 1, spell7: 1, spell8: 1, spell9: 1 },
-      19: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 3, spell6: 2, spell7: 1, spell8: 1, spell9: 1 },
-      20: { spell1: 4, spell2: 3, spell3: 3, spell4: 3, spell5: 3, spell6: 2, spell7: 2, spell8: 1, spell9: 1 },
-    };
-    return slotTable[level] ?? {};
-  }
-
   private static getRaceSize(race: DDBCharacter['race']): string {
     if (!race?.size) return 'med';
     const sizeMap: Record<string, string> = {
@@ -866,19 +1094,19 @@ export class CharacterParser {
   }
 
   /**
-   * Parse languages from D&D Beyond character
+   * Languages as dnd5e keys with telepathy; unrecognized ones go to custom
    */
-  private static parseLanguages(ddbCharacter: DDBCharacter): string[] {
-    // Use Set to avoid duplicates, split/trim logic for custom languages
-    const languages = new Set<string>();
+  private static parseLanguages(ddbCharacter: DDBCharacter) {
+    // Older payloads also list languages as comma-separated names
+    const names = new Set<string>();
     if (Array.isArray(ddbCharacter.languages)) {
       ddbCharacter.languages.forEach(lang => {
         if (typeof lang === 'string') {
-          lang.split(',').map(l => l.trim()).forEach(l => { if (l) languages.add(l); });
+          lang.split(',').map(l => l.trim()).forEach(l => { if (l) names.add(l); });
         }
       });
     }
-    return Array.from(languages);
+    return ProficiencyMapper.resolveLanguages(ModifierResolver.resolve(ddbCharacter).modifiers, Array.from(names));
   }
 
   /**
@@ -894,13 +1122,13 @@ export class CharacterParser {
       dec: 'cha',
       his: 'int',
       ins: 'wis',
-      itm: 'int',
+      itm: 'cha',
       inv: 'int',
       med: 'wis',
       nat: 'int',
       prc: 'wis',
       prf: 'cha',
-      per: 'wis',
+      per: 'cha',
       rel: 'int',
       slt: 'dex',
       ste: 'dex',
@@ -923,46 +1151,7 @@ export class CharacterParser {
     return Math.max(2, Math.ceil(level / 4) + 1);
   }
 
-  private static getAbilityScore(ddbCharacter: DDBCharacter, statId: number): number {
-    if (!ddbCharacter.stats) return 10;
-    const stat = ddbCharacter.stats.find(s => s.id === statId);
-    return stat ? stat.value : 10;
+  private static getAbilityScore(ddbCharacter: DDBCharacter, statId: number, options: ResolveOptions = {}): number {
+    return AbilityScoreCalculator.getScore(ddbCharacter, this.getAbilityKey(statId), options);
   }
-
-  private static getStatIdForAbility(ability: string): number {
-    const map = { str: 1, dex: 2, con: 3, int: 4, wis: 5, cha: 6 };
-    return map[ability as keyof typeof map] ?? 4;
-  }
-
-  private static getSpellcastingAbility(classObj: DDBClass | null): string {
-    if (!classObj?.definition) return 'int';
-    const abilities: Record<string, string> = {
-      druid: 'wis',
-      cleric: 'wis',
-      ranger: 'wis',
-      bard: 'cha',
-      sorcerer: 'cha',
-      warlock: 'cha',
-      paladin: 'cha',
-      wizard: 'int',
-      artificer: 'int',
-    };
-    return abilities[classObj.definition.name.toLowerCase()] ?? 'int';
-  }
-
-  private static isSpellcastingClass(className: string): boolean {
-    return [
-      'Artificer',
-      'Bard',
-      'Cleric',
-      'Druid',
-      'Paladin',
-      'Ranger',
-      'Sorcerer',
-      'Warlock',
-      'Wizard',
-      'Eldritch Knight',
-      'Arcane Trickster',
-    ].includes(className);
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,159 @@
+import type { DDBCharacter, DDBItem, EncumbranceData } from '../../types/index.js';
+import { AbilityScoreCalculator } from './AbilityScoreCalculator.js';
+import { RaceParser } from '../RaceParser.js';
+
+/**
+ * DDB preferences.encumbranceType values
+ */
+const ENCUMBRANCE_TYPES = {
+  standard: 1,
+  none: 2,
+  variant: 3,
+};
+
+/**
+ * Carrying capacity multiplier per dnd5e size (PHB p. 176)
+ */
+const SIZE_MULTIPLIERS: Record<string, number> = {
+  tiny: 0.5,
+  sm: 1,
+  med: 1,
+  lg: 2,
+  huge: 4,
+  grg: 8,
+};
+
+const SIZE_ORDER = ['tiny', 'sm', 'med', 'lg', 'huge', 'grg'];
+
+/**
+ * Racial traits that count the character as one size larger for carrying capacity
+ */
+const POWERFUL_BUILD_TRAITS = ['powerful build', 'hippo build', 'little giant'];
+
+/**
+ * Value of one coin in gold pieces
+ */
+const COIN_VALUES: Record<string, number> = {
+  cp: 0.01,
+  sp: 0.1,
+  ep: 0.5,
+  gp: 1,
+  pp: 10,
+};
+
+const COINS_PER_POUND = 50;
+
+/**
+ * Computes carried weight and carrying capacity the way D&D Beyond does
+ *
+ * Every inventory item counts at quantity × weight (per bundle for arrows and
+ * the like), scaled by the weight multiplier of each container it sits in so
+ * a Bag of Holding's contents weigh nothing. Coins weigh 50 to the pound
+ * unless the character ignores coin weight. Capacity is STR × 15 scaled by
+ * size; the variant rule adds the 5× and 10× STR thresholds.
+ */
+export class EncumbranceCalculator {
+  static calculate(ddbCharacter: DDBCharacter): EncumbranceData {
+    const inventory = ddbCharacter.inventory ?? [];
+    const containers = new Map(
+      inventory.filter(item => item.definition?.isContainer).map(item => [item.id, item])
+    );
+
+    let carried = 0;
+    let weight = 0;
+    let value = 0;
+    inventory.forEach(item => {
+      const itemWeight = this.getItemWeight(item);
+      weight += itemWeight;
+      carried += itemWeight * this.getContainerMultiplier(item, containers);
+      value += this.getItemValue(item);
+    });
+    (ddbCharacter.customItems ?? []).forEach(item => {
+      const quantity = item.quantity ?? 1;
+      weight += (item.weight ?? 0) * quantity;
+      carried += (item.weight ?? 0) * quantity;
+      value += (item.cost ?? 0) * quantity;
+    });
+
+    const currencies: Record<string, number> = { ...ddbCharacter.currencies };
+    const coinCount = Object.keys(COIN_VALUES).reduce((total, coin) => total + (currencies[coin] ?? 0), 0);
+    const coins = ddbCharacter.preferences?.ignoreCoinWeight ? 0 : coinCount / COINS_PER_POUND;
+    value += Object.entries(COIN_VALUES).reduce((total, [coin, worth]) => total + (currencies[coin] ?? 0) * worth, 0);
+
+    const strength = AbilityScoreCalculator.getScore(ddbCharacter, 'str', { includeTransferred: true });
+    const multiplier = this.getCapacityMultiplier(ddbCharacter);
+    const encumbranceType = ddbCharacter.preferences?.encumbranceType ?? ENCUMBRANCE_TYPES.standard;
+    const variant = encumbranceType === ENCUMBRANCE_TYPES.variant;
+    const max = strength * 15 * multiplier;
+    const thresholds = {
+      encumbered: variant ? strength * 5 * multiplier : max,
+      heavilyEncumbered: variant ? strength * 10 * multiplier : max,
+    };
+    const current = this.round(carried + coins);
+    const tracked = encumbranceType !== ENCUMBRANCE_TYPES.none;
+
+    return {
+      current,
+      max,
+      percentage: max > 0 ? Math.min(100, Math.round((current / max) * 100)) : 0,
+      encumbered: tracked && current > thresholds.encumbered,
+      heavily: tracked && variant && current > thresholds.heavilyEncumbered,
+      variant,
+      multiplier,
+      thresholds,
+      coins: this.round(coins),
+      total: {
+        value: this.round(value),
+        weight: this.round(weight + coins),
+      },
+    };
+  }
+
+  /**
+   * Whether a racial trait counts the character as one size larger when carrying
+   */
+  static hasPowerfulBuild(ddbCharacter: DDBCharacter): boolean {
+    return (ddbCharacter.race?.racialTraits ?? []).some(trait =>
+      POWERFUL_BUILD_TRAITS.includes(trait.definition.name.toLowerCase())
+    );
+  }
+
+  /**
+   * Size multiplier for carrying capacity, one size up with Powerful Build
+   */
+  private static getCapacityMultiplier(ddbCharacter: DDBCharacter): number {
+    const size = RaceParser.getSize(ddbCharacter.race);
+    const index = SIZE_ORDER.indexOf(size) + (this.hasPowerfulBuild(ddbCharacter) ? 1 : 0);
+    return SIZE_MULTIPLIERS[SIZE_ORDER[Math.min(index, SIZE_ORDER.length - 1)]] ?? 1;
+  }
+
+  private static getItemWeight(item: DDBItem): number {
+    const bundleSize = item.definition?.bundleSize || 1;
+    return ((item.definition?.weight ?? 0) * (item.quantity ?? 1)) / bundleSize;
+  }
+
+  /**
+   * Product of the weight multipliers of every container the item is nested in
+   */
+  private static getContainerMultiplier(item: DDBItem, containers: Map<number, DDBItem>): number {
+    let multiplier = 1;
+    const visited = new Set<number>([item.id]);
+    let container = item.containerEntityId !== undefined ? containers.get(item.containerEntityId) : undefined;
+    while (container && !visited.has(container.id)) {
+      visited.add(container.id);
+      multiplier *= container.definition.weightMultiplier ?? 1;
+      container = container.containerEntityId !== undefined ? containers.get(container.containerEntityId) : undefined;
+    }
+    return multiplier;
+  }
+
+  private static getItemValue(item: DDBItem): number {
+    const cost = item.definition?.cost;
+    if (!cost) return 0;
+    return cost.quantity * (COIN_VALUES[cost.unit] ?? 1) * (item.quantity ?? 1);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
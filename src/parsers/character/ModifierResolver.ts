@@ -0,0 +1,781 @@
+import type { DDBCharacter, DDBModifier, FoundryActor, ImportOptions } from '../../types/index.js';
+
+/**
+ * Modifier buckets on a D&D Beyond character payload
+ */
+export type ModifierSource = 'race' | 'class' | 'background' | 'item' | 'feat' | 'condition';
+
+/**
+ * A DDB modifier tagged with the bucket it came from
+ */
+export interface SourcedModifier extends DDBModifier {
+  source: ModifierSource | string;
+}
+
+/**
+ * A single ActiveEffect change derived from a modifier
+ */
+export interface EffectChange {
+  key: string;
+  mode: number;
+  value: string;
+  priority?: number;
+}
+
+/**
+ * Foundry CONST.ACTIVE_EFFECT_MODES
+ */
+export const EFFECT_MODES = {
+  CUSTOM: 0,
+  MULTIPLY: 1,
+  ADD: 2,
+  DOWNGRADE: 3,
+  UPGRADE: 4,
+  OVERRIDE: 5,
+};
+
+export interface ResolveOptions {
+  /**
+   * Include modifiers that are carried as transferable effects on embedded
+   * items and feats. Off by default so those values are not baked into the
+   * sheet on top of the effect.
+   */
+  includeTransferred?: boolean;
+}
+
+/**
+ * Aggregated view of every active modifier on a character
+ */
+export interface ResolvedModifiers {
+  modifiers: SourcedModifier[];
+  abilities: Record<string, { bonus: number; set: number | null }>;
+  saves: Record<string, { proficient: number; bonus: number; advantage: boolean }>;
+  checks: Record<string, { bonus: number; advantage: boolean; halfProficient: boolean }>;
+  skills: Record<string, { proficient: number; bonus: number; passive: number; advantage: boolean }>;
+  jackOfAllTrades: boolean;
+  remarkableAthlete: boolean;
+  initiative: { bonus: number; advantage: boolean };
+  senses: Record<string, number>;
+  specialSenses: string[];
+  speeds: {
+    bonus: Record<string, number>;
+    set: Record<string, number>;
+    equalToWalk: string[];
+    unarmoredBonus: number;
+    hover: boolean;
+  };
+  bonuses: NonNullable<FoundryActor['system']['bonuses']>;
+  traits: Record<'dr' | 'di' | 'dv' | 'ci', DefenseTrait>;
+}
+
+/**
+ * Damage or condition defenses from modifiers. Situational defenses that
+ * dnd5e cannot express (e.g. "while raging") are listed in custom.
+ */
+export interface DefenseTrait {
+  value: string[];
+  bypasses: string[];
+  custom: string[];
+}
+
+/**
+ * A single resistance, immunity or vulnerability modifier mapped to a trait
+ */
+interface Defense {
+  trait: 'dr' | 'di' | 'dv' | 'ci';
+  types: string[];
+  bypasses: string[];
+  label: string;
+  conditional: boolean;
+}
+
+/**
+ * Foundry ability key -> DDB ability name used in modifier subTypes
+ */
+export const ABILITY_SUBTYPES: Record<string, string> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+};
+
+/**
+ * Foundry skill key -> DDB skill modifier subType
+ */
+export const SKILL_SUBTYPES: Record<string, string> = {
+  acr: 'acrobatics',
+  ani: 'animal-handling',
+  arc: 'arcana',
+  ath: 'athletics',
+  dec: 'deception',
+  his: 'history',
+  ins: 'insight',
+  itm: 'intimidation',
+  inv: 'investigation',
+  med: 'medicine',
+  nat: 'nature',
+  prc: 'perception',
+  prf: 'performance',
+  per: 'persuasion',
+  rel: 'religion',
+  slt: 'sleight-of-hand',
+  ste: 'stealth',
+  sur: 'survival',
+};
+
+export const SENSE_TYPES = ['darkvision', 'blindsight', 'tremorsense', 'truesight'];
+
+export const MOVEMENT_TYPES = ['walk', 'burrow', 'climb', 'fly', 'swim'];
+
+/**
+ * DDB customSenses senseId -> Foundry sense key
+ */
+export const SENSE_IDS: Record<number, string> = {
+  1: 'blindsight',
+  2: 'darkvision',
+  3: 'tremorsense',
+  4: 'truesight',
+};
+
+/**
+ * DDB customSpeeds movementId -> Foundry movement key
+ */
+export const MOVEMENT_IDS: Record<number, string> = {
+  1: 'walk',
+  2: 'burrow',
+  3: 'climb',
+  4: 'fly',
+  5: 'swim',
+};
+
+/**
+ * DDB speed modifier subType -> Foundry movement key
+ */
+const SPEED_SUBTYPES: Record<string, string> = {
+  speed: 'walk',
+  'speed-walking': 'walk',
+  'innate-speed-walking': 'walk',
+  'speed-burrowing': 'burrow',
+  'innate-speed-burrowing': 'burrow',
+  'speed-climbing': 'climb',
+  'innate-speed-climbing': 'climb',
+  'speed-flying': 'fly',
+  'innate-speed-flying': 'fly',
+  'speed-swimming': 'swim',
+  'innate-speed-swimming': 'swim',
+};
+
+export const DAMAGE_TYPES = [
+  'acid',
+  'bludgeoning',
+  'cold',
+  'fire',
+  'force',
+  'lightning',
+  'necrotic',
+  'piercing',
+  'poison',
+  'psychic',
+  'radiant',
+  'slashing',
+  'thunder',
+];
+
+export const CONDITION_TYPES = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'diseased',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+];
+
+const DEFENSE_TRAITS: Record<string, 'dr' | 'di' | 'dv'> = {
+  resistance: 'dr',
+  immunity: 'di',
+  vulnerability: 'dv',
+};
+
+const PHYSICAL_DAMAGE_TYPES = ['bludgeoning', 'piercing', 'slashing'];
+
+/**
+ * Wording in a defense subType or restriction -> dnd5e physical damage bypass
+ */
+const DAMAGE_BYPASSES: Array<[RegExp, string]> = [
+  [/non-?magical/, 'mgc'],
+  [/silver/, 'sil'],
+  [/adamantine/, 'ada'],
+];
+
+/**
+ * Restriction wording that only describes which damage a defense covers,
+ * rather than when it applies
+ */
+const DESCRIPTIVE_DEFENSE_PHRASES = [
+  /(from |against )?non-?magical( attacks| weapons)?/g,
+  /that (are|were)n['’]?t (silvered|adamantine)/g,
+  /silvered|adamantine/g,
+  new RegExp(`except( (${DAMAGE_TYPES.join('|')})( damage)?,?( and| or)?)+`, 'g'),
+];
+
+const CONDITION_ALIASES: Record<string, string> = {
+  disease: 'diseased',
+};
+
+/**
+ * DDB condition id -> dnd5e condition / status id
+ */
+export const CONDITION_IDS: Record<number, string> = {
+  1: 'blinded',
+  2: 'charmed',
+  3: 'deafened',
+  4: 'exhaustion',
+  5: 'frightened',
+  6: 'grappled',
+  7: 'incapacitated',
+  8: 'invisible',
+  9: 'paralyzed',
+  10: 'petrified',
+  11: 'poisoned',
+  12: 'prone',
+  13: 'restrained',
+  14: 'stunned',
+  15: 'unconscious',
+};
+
+/**
+ * Speed restrictions that describe the speed itself rather than limit when it applies
+ */
+const DESCRIPTIVE_SPEED_RESTRICTION = /walking speed|hover/i;
+
+/**
+ * Modifier types granting half proficiency; Remarkable Athlete uses the round-up variant
+ */
+const HALF_PROFICIENCY_TYPES = ['half-proficiency', 'half-proficiency-round-up'];
+
+/**
+ * Abilities whose checks Remarkable Athlete improves
+ */
+const REMARKABLE_ATHLETE_ABILITIES = ['strength', 'dexterity', 'constitution'];
+
+/**
+ * DDB bonus subType -> Foundry global bonus paths it feeds
+ */
+const GLOBAL_BONUS_SUBTYPES: Record<string, string[]> = {
+  'melee-attacks': ['mwak.attack', 'msak.attack'],
+  'ranged-attacks': ['rwak.attack', 'rsak.attack'],
+  'weapon-attacks': ['mwak.attack', 'rwak.attack'],
+  'melee-weapon-attacks': ['mwak.attack'],
+  'ranged-weapon-attacks': ['rwak.attack'],
+  'spell-attacks': ['msak.attack', 'rsak.attack'],
+  'melee-spell-attacks': ['msak.attack'],
+  'ranged-spell-attacks': ['rsak.attack'],
+  'spell-save-dc': ['spell.dc'],
+  'saving-throws': ['abilities.save'],
+  'ability-checks': ['abilities.check'],
+};
+
+/**
+ * Central resolution of D&D Beyond character modifiers
+ *
+ * DDB stores every mechanical effect (racial ASIs, feat proficiencies, magic item
+ * bonuses, ...) as modifiers grouped by source bucket. This resolver flattens those
+ * buckets, drops modifiers from items that are not currently active, and aggregates
+ * the DDB type/subType pairs into the shapes CharacterParser needs.
+ *
+ * Modifiers owned by embedded items and feats that can be expressed as
+ * ActiveEffect changes are left out by default; the owning item carries them
+ * as a transferable effect instead (see ActiveEffectGenerator).
+ */
+export class ModifierResolver {
+  private static cache = new WeakMap<DDBCharacter, ResolvedModifiers>();
+  private static fullCache = new WeakMap<DDBCharacter, ResolvedModifiers>();
+  private static unimportedItems = new WeakSet<DDBCharacter>();
+
+  /**
+   * Record which embedded documents the import creates. Item modifiers only
+   * travel as item effects when the inventory is imported; otherwise they are
+   * baked into the character's values.
+   */
+  public static setImportOptions(ddbCharacter: DDBCharacter, options: Partial<ImportOptions>): void {
+    if (options.importItems === false) {
+      this.unimportedItems.add(ddbCharacter);
+    } else {
+      this.unimportedItems.delete(ddbCharacter);
+    }
+    this.cache.delete(ddbCharacter);
+  }
+
+  /**
+   * Resolve (and memoize) every modifier on a character
+   */
+  public static resolve(ddbCharacter: DDBCharacter, options: ResolveOptions = {}): ResolvedModifiers {
+    const cache = options.includeTransferred ? this.fullCache : this.cache;
+    const cached = cache.get(ddbCharacter);
+    if (cached) return cached;
+
+    const modifiers = this.getModifiers(ddbCharacter).filter(
+      modifier => options.includeTransferred || !this.isTransferred(ddbCharacter, modifier)
+    );
+    const resolved: ResolvedModifiers = {
+      modifiers,
+      abilities: this.resolveAbilities(modifiers),
+      saves: this.resolveSaves(modifiers),
+      checks: this.resolveChecks(modifiers),
+      skills: this.resolveSkills(modifiers),
+      jackOfAllTrades: this.hasJackOfAllTrades(modifiers),
+      remarkableAthlete: this.hasRemarkableAthlete(modifiers),
+      initiative: {
+        bonus: this.sum(this.filterModifiers(modifiers, 'bonus', 'initiative')),
+        advantage: this.hasAdvantage(modifiers, 'initiative'),
+      },
+      senses: this.resolveSenses(modifiers),
+      specialSenses: this.resolveSpecialSenses(modifiers),
+      speeds: this.resolveSpeeds(modifiers),
+      bonuses: this.resolveBonuses(modifiers),
+      traits: this.resolveTraits(modifiers),
+    };
+
+    cache.set(ddbCharacter, resolved);
+    return resolved;
+  }
+
+  /**
+   * Flatten all modifier buckets, keeping only modifiers that currently apply
+   */
+  public static getModifiers(ddbCharacter: DDBCharacter): SourcedModifier[] {
+    const buckets = ddbCharacter.modifiers ?? {};
+    const modifiers: SourcedModifier[] = [];
+
+    Object.entries(buckets).forEach(([source, bucket]) => {
+      if (!Array.isArray(bucket)) return;
+      bucket.forEach(modifier => {
+        if (!modifier?.type) return;
+        if (source === 'item' && !this.isItemModifierActive(ddbCharacter, modifier)) return;
+        modifiers.push({ ...modifier, source });
+      });
+    });
+
+    return modifiers;
+  }
+
+  /**
+   * Filter modifiers by type and (optionally) one or more subTypes
+   */
+  public static filterModifiers(
+    modifiers: SourcedModifier[],
+    type: string | string[],
+    subType?: string | string[]
+  ): SourcedModifier[] {
+    const types = Array.isArray(type) ? type : [type];
+    const subTypes = subType === undefined ? null : Array.isArray(subType) ? subType : [subType];
+    return modifiers.filter(
+      modifier =>
+        types.includes(modifier.type) && (subTypes === null || subTypes.includes(modifier.subType))
+    );
+  }
+
+  /**
+   * Numeric value of a modifier (DDB uses `value` or `fixedValue` depending on the source)
+   */
+  public static getValue(modifier: DDBModifier): number {
+    const value = modifier.value ?? modifier.fixedValue;
+    return typeof value === 'number' ? value : 0;
+  }
+
+  /**
+   * Sum of all unconditional modifier values
+   */
+  public static sum(modifiers: SourcedModifier[]): number {
+    return modifiers
+      .filter(modifier => !this.isConditional(modifier))
+      .reduce((total, modifier) => total + this.getValue(modifier), 0);
+  }
+
+  /**
+   * Highest value among modifiers, or null when none apply
+   */
+  public static max(modifiers: SourcedModifier[]): number | null {
+    const values = modifiers
+      .filter(modifier => !this.isConditional(modifier))
+      .map(modifier => this.getValue(modifier));
+    return values.length > 0 ? Math.max(...values) : null;
+  }
+
+  /**
+   * Proficiency multiplier granted for a subType (0, 0.5, 1 or 2)
+   */
+  public static getProficiencyLevel(modifiers: SourcedModifier[], subType: string | string[]): number {
+    if (this.filterModifiers(modifiers, 'expertise', subType).length > 0) return 2;
+    if (this.filterModifiers(modifiers, 'proficiency', subType).length > 0) return 1;
+    if (this.filterModifiers(modifiers, HALF_PROFICIENCY_TYPES, subType).length > 0) return 0.5;
+    return 0;
+  }
+
+  /**
+   * Whether the character has unconditional advantage for a subType
+   */
+  public static hasAdvantage(modifiers: SourcedModifier[], subType: string | string[]): boolean {
+    return this.filterModifiers(modifiers, 'advantage', subType).some(
+      modifier => !this.isConditional(modifier)
+    );
+  }
+
+  /**
+   * Modifiers with a restriction ("while wearing no armor", "against poison", ...)
+   * only apply situationally and are not baked into static values
+   */
+  public static isConditional(modifier: DDBModifier): boolean {
+    return typeof modifier.restriction === 'string' && modifier.restriction.trim() !== '';
+  }
+
+  /**
+   * Whether a modifier is carried by a transferable effect on an embedded
+   * document: an inventory item or a feat the importer embeds on the actor.
+   * Item modifiers are not when the import skips items (see setImportOptions).
+   */
+  public static isTransferred(ddbCharacter: DDBCharacter, modifier: SourcedModifier): boolean {
+    if (this.getEffectChanges(modifier).length === 0) return false;
+    if (modifier.source === 'item') {
+      if (this.unimportedItems.has(ddbCharacter)) return false;
+      return (ddbCharacter.inventory ?? []).some(
+        entry => entry.definition?.id === modifier.componentId || entry.id === modifier.componentId
+      );
+    }
+    if (modifier.source === 'feat') {
+      return (ddbCharacter.feats ?? []).some(feat => feat.definition?.id === modifier.componentId);
+    }
+    return false;
+  }
+
+  /**
+   * ActiveEffect changes equivalent to a modifier, or none when the modifier
+   * is conditional or has no dnd5e data path
+   */
+  public static getEffectChanges(modifier: DDBModifier): EffectChange[] {
+    const defense = this.getDefense(modifier);
+    if (defense) {
+      if (defense.conditional) return [];
+      return [
+        ...defense.types.map(type => ({ key: `system.traits.${defense.trait}.value`, mode: EFFECT_MODES.ADD, value: type })),
+        ...defense.bypasses.map(bypass => ({ key: `system.traits.${defense.trait}.bypasses`, mode: EFFECT_MODES.ADD, value: bypass })),
+      ];
+    }
+    if (this.isConditional(modifier)) return [];
+
+    const subType = modifier.subType?.toLowerCase() ?? '';
+    const value = this.getValue(modifier);
+    const dice = modifier.dice?.diceString;
+    const formula = dice ? `+${dice}` : value < 0 ? String(value) : `+${value}`;
+    const add = (key: string, changeValue: string): EffectChange => ({ key, mode: EFFECT_MODES.ADD, value: changeValue });
+    const upgrade = (key: string, changeValue: number): EffectChange => ({
+      key,
+      mode: EFFECT_MODES.UPGRADE,
+      value: String(changeValue),
+    });
+
+    const abilityKey = Object.keys(ABILITY_SUBTYPES).find(key => subType.startsWith(`${ABILITY_SUBTYPES[key]}-`));
+    const skillKey = Object.keys(SKILL_SUBTYPES).find(key => SKILL_SUBTYPES[key] === subType);
+    const movement = SPEED_SUBTYPES[subType];
+
+    switch (modifier.type) {
+      case 'bonus':
+        if (subType === 'armor-class') return [add('system.attributes.ac.bonus', formula)];
+        if (subType === 'initiative') return [add('system.attributes.init.bonus', formula)];
+        if (abilityKey && subType.endsWith('-score')) return [add(`system.abilities.${abilityKey}.value`, String(value))];
+        if (abilityKey && subType.endsWith('-saving-throws')) return [add(`system.abilities.${abilityKey}.bonuses.save`, formula)];
+        if (abilityKey && subType.endsWith('-ability-checks')) return [add(`system.abilities.${abilityKey}.bonuses.check`, formula)];
+        if (skillKey) return [add(`system.skills.${skillKey}.bonuses.check`, formula)];
+        if (movement) return [add(`system.attributes.movement.${movement}`, String(value))];
+        if (SENSE_TYPES.includes(subType)) return [add(`system.attributes.senses.${subType}`, String(value))];
+        if (GLOBAL_BONUS_SUBTYPES[subType]) {
+          return GLOBAL_BONUS_SUBTYPES[subType].map(path => add(`system.bonuses.${path}`, formula));
+        }
+        return [];
+      case 'set':
+        if (abilityKey && subType.endsWith('-score')) return [upgrade(`system.abilities.${abilityKey}.value`, value)];
+        if (movement && value > 0) return [upgrade(`system.attributes.movement.${movement}`, value)];
+        return [];
+      case 'set-base':
+      case 'sense':
+        if (SENSE_TYPES.includes(subType)) return [upgrade(`system.attributes.senses.${subType}`, value)];
+        return [];
+      case 'proficiency':
+      case 'expertise':
+      case 'half-proficiency': {
+        const level = modifier.type === 'expertise' ? 2 : modifier.type === 'proficiency' ? 1 : 0.5;
+        if (abilityKey && subType.endsWith('-saving-throws')) {
+          return [upgrade(`system.abilities.${abilityKey}.proficient`, Math.min(level, 1))];
+        }
+        if (skillKey) return [upgrade(`system.skills.${skillKey}.value`, level)];
+        return [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Format a numeric bonus as a Foundry bonus formula string
+   */
+  public static formatBonus(value: number): string {
+    return value === 0 ? '' : String(value);
+  }
+
+  /**
+   * Item modifiers only apply while the item is equipped (and attuned when required)
+   */
+  private static isItemModifierActive(ddbCharacter: DDBCharacter, modifier: DDBModifier): boolean {
+    const item = ddbCharacter.inventory?.find(
+      entry => entry.definition?.id === modifier.componentId || entry.id === modifier.componentId
+    );
+    if (!item) return true;
+    if (!item.equipped) return false;
+    if (item.definition?.requiresAttunement && !item.isAttuned) return false;
+    return true;
+  }
+
+  private static resolveAbilities(modifiers: SourcedModifier[]): ResolvedModifiers['abilities'] {
+    const abilities: ResolvedModifiers['abilities'] = {};
+    Object.entries(ABILITY_SUBTYPES).forEach(([key, name]) => {
+      const subType = `${name}-score`;
+      abilities[key] = {
+        bonus: this.sum(this.filterModifiers(modifiers, 'bonus', subType)),
+        set: this.max(this.filterModifiers(modifiers, 'set', subType)),
+      };
+    });
+    return abilities;
+  }
+
+  private static resolveSaves(modifiers: SourcedModifier[]): ResolvedModifiers['saves'] {
+    const saves: ResolvedModifiers['saves'] = {};
+    Object.entries(ABILITY_SUBTYPES).forEach(([key, name]) => {
+      const subType = `${name}-saving-throws`;
+      saves[key] = {
+        proficient: this.getProficiencyLevel(modifiers, subType),
+        bonus: this.sum(this.filterModifiers(modifiers, 'bonus', subType)),
+        advantage: this.hasAdvantage(modifiers, subType),
+      };
+    });
+    return saves;
+  }
+
+  private static resolveChecks(modifiers: SourcedModifier[]): ResolvedModifiers['checks'] {
+    const checks: ResolvedModifiers['checks'] = {};
+    const jackOfAllTrades = this.hasJackOfAllTrades(modifiers);
+    Object.entries(ABILITY_SUBTYPES).forEach(([key, name]) => {
+      const subType = `${name}-ability-checks`;
+      checks[key] = {
+        bonus: this.sum(this.filterModifiers(modifiers, 'bonus', subType)),
+        advantage: this.hasAdvantage(modifiers, subType),
+        halfProficient:
+          jackOfAllTrades || this.filterModifiers(modifiers, HALF_PROFICIENCY_TYPES, subType).length > 0,
+      };
+    });
+    return checks;
+  }
+
+  private static resolveSkills(modifiers: SourcedModifier[]): ResolvedModifiers['skills'] {
+    const skills: ResolvedModifiers['skills'] = {};
+    Object.entries(SKILL_SUBTYPES).forEach(([key, subType]) => {
+      skills[key] = {
+        proficient: this.getProficiencyLevel(modifiers, subType),
+        bonus: this.sum(this.filterModifiers(modifiers, 'bonus', subType)),
+        passive: this.sum(this.filterModifiers(modifiers, 'bonus', `passive-${subType}`)),
+        advantage: this.hasAdvantage(modifiers, subType),
+      };
+    });
+    return skills;
+  }
+
+  /**
+   * Jack of All Trades arrives as half proficiency on all ability checks
+   */
+  private static hasJackOfAllTrades(modifiers: SourcedModifier[]): boolean {
+    return this.filterModifiers(modifiers, 'half-proficiency', 'ability-checks').length > 0;
+  }
+
+  /**
+   * Remarkable Athlete arrives as rounded-up half proficiency on STR/DEX/CON checks
+   */
+  private static hasRemarkableAthlete(modifiers: SourcedModifier[]): boolean {
+    const subTypes = REMARKABLE_ATHLETE_ABILITIES.map(name => `${name}-ability-checks`);
+    return this.filterModifiers(modifiers, 'half-proficiency-round-up', subTypes).length > 0;
+  }
+
+  private static resolveSenses(modifiers: SourcedModifier[]): ResolvedModifiers['senses'] {
+    const senses: ResolvedModifiers['senses'] = {};
+    SENSE_TYPES.forEach(sense => {
+      const base = this.max(this.filterModifiers(modifiers, ['set-base', 'sense'], sense)) ?? 0;
+      const bonus = this.sum(this.filterModifiers(modifiers, 'bonus', sense));
+      senses[sense] = base > 0 ? base + bonus : 0;
+    });
+    return senses;
+  }
+
+  /**
+   * Sense modifiers Foundry has no field for (Devil's Sight, ...), as display text
+   */
+  private static resolveSpecialSenses(modifiers: SourcedModifier[]): string[] {
+    const special: string[] = [];
+    this.filterModifiers(modifiers, 'sense').forEach(modifier => {
+      const subType = modifier.subType?.toLowerCase() ?? '';
+      // Telepathy is a means of communication in dnd5e, imported with languages
+      if (SENSE_TYPES.includes(subType) || subType === 'telepathy') return;
+      const name = modifier.friendlySubtypeName || subType;
+      const value = this.getValue(modifier);
+      const text = value > 0 ? `${name} ${value} ft.` : name;
+      if (!special.includes(text)) special.push(text);
+    });
+    return special;
+  }
+
+  private static resolveSpeeds(modifiers: SourcedModifier[]): ResolvedModifiers['speeds'] {
+    const speeds: ResolvedModifiers['speeds'] = {
+      bonus: {},
+      set: {},
+      equalToWalk: [],
+      unarmoredBonus: this.sum(this.filterModifiers(modifiers, 'bonus', 'unarmored-movement')),
+      hover: false,
+    };
+    MOVEMENT_TYPES.forEach(movement => {
+      speeds.bonus[movement] = 0;
+    });
+
+    modifiers.forEach(modifier => {
+      if (modifier.subType === 'hover') {
+        speeds.hover = true;
+        return;
+      }
+      const movement = SPEED_SUBTYPES[modifier.subType];
+      if (!movement) return;
+
+      const restriction = modifier.restriction ?? '';
+      const descriptive = DESCRIPTIVE_SPEED_RESTRICTION.test(restriction);
+      if (this.isConditional(modifier) && !descriptive) return;
+
+      if (modifier.type === 'bonus') {
+        speeds.bonus[movement] += this.getValue(modifier);
+      } else if (modifier.type === 'set' || modifier.type === 'set-base') {
+        const value = this.getValue(modifier);
+        // DDB leaves the value empty for "speed equal to your walking speed"
+        if (value <= 0 || /walking speed/i.test(restriction)) {
+          if (movement !== 'walk' && !speeds.equalToWalk.includes(movement)) speeds.equalToWalk.push(movement);
+        } else {
+          speeds.set[movement] = Math.max(speeds.set[movement] ?? 0, value);
+        }
+        if (movement === 'fly' && /hover/i.test(restriction)) speeds.hover = true;
+      }
+    });
+
+    return speeds;
+  }
+
+  private static resolveBonuses(modifiers: SourcedModifier[]): ResolvedModifiers['bonuses'] {
+    const totals: Record<string, number> = {};
+    this.filterModifiers(modifiers, 'bonus', Object.keys(GLOBAL_BONUS_SUBTYPES)).forEach(modifier => {
+      if (this.isConditional(modifier)) return;
+      GLOBAL_BONUS_SUBTYPES[modifier.subType].forEach(path => {
+        totals[path] = (totals[path] ?? 0) + this.getValue(modifier);
+      });
+    });
+
+    const bonus = (path: string): string => this.formatBonus(totals[path] ?? 0);
+    return {
+      mwak: { attack: bonus('mwak.attack'), damage: '' },
+      rwak: { attack: bonus('rwak.attack'), damage: '' },
+      msak: { attack: bonus('msak.attack'), damage: '' },
+      rsak: { attack: bonus('rsak.attack'), damage: '' },
+      abilities: { check: bonus('abilities.check'), save: bonus('abilities.save'), skill: '' },
+      spell: { dc: bonus('spell.dc') },
+    };
+  }
+
+  private static resolveTraits(modifiers: SourcedModifier[]): ResolvedModifiers['traits'] {
+    const traits: ResolvedModifiers['traits'] = {
+      dr: { value: [], bypasses: [], custom: [] },
+      di: { value: [], bypasses: [], custom: [] },
+      dv: { value: [], bypasses: [], custom: [] },
+      ci: { value: [], bypasses: [], custom: [] },
+    };
+    const add = (list: string[], value: string): void => {
+      if (!list.includes(value)) list.push(value);
+    };
+    // dnd5e bypasses cover every physical type on a trait, so an unconditional
+    // physical defense on the same trait must not be weakened by them
+    const plainPhysical = new Set<string>();
+
+    modifiers.forEach(modifier => {
+      const defense = this.getDefense(modifier);
+      if (!defense) return;
+
+      const trait = traits[defense.trait];
+      if (defense.conditional || defense.types.length === 0) {
+        add(trait.custom, modifier.restriction ? `${defense.label} (${modifier.restriction.trim()})` : defense.label);
+        return;
+      }
+
+      defense.types.forEach(type => add(trait.value, type));
+      defense.bypasses.forEach(bypass => add(trait.bypasses, bypass));
+      if (defense.bypasses.length === 0 && defense.types.some(type => PHYSICAL_DAMAGE_TYPES.includes(type))) {
+        plainPhysical.add(defense.trait);
+      }
+    });
+
+    plainPhysical.forEach(trait => {
+      traits[trait as keyof ResolvedModifiers['traits']].bypasses = [];
+    });
+    return traits;
+  }
+
+  /**
+   * Map a resistance, immunity or vulnerability modifier to the damage types
+   * or condition it covers. Handles "all" damage with exceptions and the
+   * nonmagical / silvered / adamantine weapon bypasses.
+   */
+  private static getDefense(modifier: DDBModifier): Defense | null {
+    const damageTrait = DEFENSE_TRAITS[modifier.type];
+    if (!damageTrait) return null;
+
+    const subType = modifier.subType?.toLowerCase() ?? '';
+    const restriction = modifier.restriction?.trim().toLowerCase() ?? '';
+    const label = modifier.friendlySubtypeName ?? modifier.subType;
+    const conditional = DESCRIPTIVE_DEFENSE_PHRASES
+      .reduce((remaining, phrase) => remaining.replace(phrase, ''), restriction)
+      .replace(/[\s,.]/g, '') !== '';
+
+    const condition = CONDITION_ALIASES[subType] ?? subType;
+    if (modifier.type === 'immunity' && CONDITION_TYPES.includes(condition)) {
+      return { trait: 'ci', types: [condition], bypasses: [], label, conditional };
+    }
+
+    const text = `${subType} ${restriction}`;
+    let types: string[] = [];
+    if (DAMAGE_TYPES.includes(subType)) {
+      types = [subType];
+    } else if (subType.startsWith('bludgeoning-piercing-and-slashing')) {
+      types = PHYSICAL_DAMAGE_TYPES;
+    } else if (subType === 'all' || subType.startsWith('all-')) {
+      const exceptions = text.split('except')[1] ?? '';
+      types = DAMAGE_TYPES.filter(type => !exceptions.includes(type));
+    }
+
+    const bypasses = types.some(type => PHYSICAL_DAMAGE_TYPES.includes(type))
+      ? DAMAGE_BYPASSES.filter(([pattern]) => pattern.test(text)).map(([, bypass]) => bypass)
+      : [];
+
+    return { trait: damageTrait, types, bypasses, label, conditional };
+  }
+}
@@ -0,0 +1,303 @@
+import type { DDBModifier, FoundryToolProficiency } from '../../types/index.js';
+import { ABILITY_SUBTYPES, ModifierResolver, SKILL_SUBTYPES, type SourcedModifier } from './ModifierResolver.js';
+
+/**
+ * DDB proficiency subType -> dnd5e weapon proficiency category
+ */
+export const WEAPON_CATEGORIES: Record<string, string> = {
+  'simple-weapons': 'sim',
+  'martial-weapons': 'mar',
+};
+
+/**
+ * dnd5e base weapon id -> weapon category
+ */
+export const BASE_WEAPONS: Record<string, 'sim' | 'mar'> = {
+  club: 'sim',
+  dagger: 'sim',
+  greatclub: 'sim',
+  handaxe: 'sim',
+  javelin: 'sim',
+  lighthammer: 'sim',
+  mace: 'sim',
+  quarterstaff: 'sim',
+  sickle: 'sim',
+  spear: 'sim',
+  dart: 'sim',
+  lightcrossbow: 'sim',
+  shortbow: 'sim',
+  sling: 'sim',
+  battleaxe: 'mar',
+  flail: 'mar',
+  glaive: 'mar',
+  greataxe: 'mar',
+  greatsword: 'mar',
+  halberd: 'mar',
+  lance: 'mar',
+  longsword: 'mar',
+  maul: 'mar',
+  morningstar: 'mar',
+  pike: 'mar',
+  rapier: 'mar',
+  scimitar: 'mar',
+  shortsword: 'mar',
+  trident: 'mar',
+  warpick: 'mar',
+  warhammer: 'mar',
+  whip: 'mar',
+  blowgun: 'mar',
+  handcrossbow: 'mar',
+  heavycrossbow: 'mar',
+  longbow: 'mar',
+  net: 'mar',
+};
+
+/**
+ * DDB weapon subTypes that do not collapse to the dnd5e id by dropping dashes
+ */
+const WEAPON_ALIASES: Record<string, string> = {
+  'crossbow-light': 'lightcrossbow',
+  'crossbow-hand': 'handcrossbow',
+  'crossbow-heavy': 'heavycrossbow',
+};
+
+/**
+ * DDB proficiency subType -> dnd5e armor proficiency key
+ */
+export const ARMOR_PROFICIENCIES: Record<string, string> = {
+  'light-armor': 'lgt',
+  'medium-armor': 'med',
+  'heavy-armor': 'hvy',
+  shields: 'shl',
+};
+
+/**
+ * DDB proficiency subType -> dnd5e tool id, its tool category and default ability
+ */
+export const TOOL_PROFICIENCIES: Record<string, { key: string; category?: string; ability: string }> = {
+  'thieves-tools': { key: 'thief', ability: 'dex' },
+  'herbalism-kit': { key: 'herb', ability: 'int' },
+  'disguise-kit': { key: 'disg', ability: 'cha' },
+  'forgery-kit': { key: 'forg', ability: 'dex' },
+  'navigators-tools': { key: 'navg', ability: 'wis' },
+  'poisoners-kit': { key: 'pois', ability: 'int' },
+  'alchemists-supplies': { key: 'alchemist', category: 'art', ability: 'int' },
+  'brewers-supplies': { key: 'brewer', category: 'art', ability: 'int' },
+  'calligraphers-supplies': { key: 'calligrapher', category: 'art', ability: 'dex' },
+  'carpenters-tools': { key: 'carpenter', category: 'art', ability: 'str' },
+  'cartographers-tools': { key: 'cartographer', category: 'art', ability: 'wis' },
+  'cobblers-tools': { key: 'cobbler', category: 'art', ability: 'dex' },
+  'cooks-utensils': { key: 'cook', category: 'art', ability: 'wis' },
+  'glassblowers-tools': { key: 'glassblower', category: 'art', ability: 'int' },
+  'jewelers-tools': { key: 'jeweler', category: 'art', ability: 'int' },
+  'leatherworkers-tools': { key: 'leatherworker', category: 'art', ability: 'dex' },
+  'masons-tools': { key: 'mason', category: 'art', ability: 'str' },
+  'painters-supplies': { key: 'painter', category: 'art', ability: 'wis' },
+  'potters-tools': { key: 'potter', category: 'art', ability: 'int' },
+  'smiths-tools': { key: 'smith', category: 'art', ability: 'str' },
+  'tinkers-tools': { key: 'tinker', category: 'art', ability: 'dex' },
+  'weavers-tools': { key: 'weaver', category: 'art', ability: 'dex' },
+  'woodcarvers-tools': { key: 'woodcarver', category: 'art', ability: 'dex' },
+  'dice-set': { key: 'dice', category: 'game', ability: 'wis' },
+  'dragonchess-set': { key: 'chess', category: 'game', ability: 'wis' },
+  'playing-card-set': { key: 'card', category: 'game', ability: 'wis' },
+  bagpipes: { key: 'bagpipes', category: 'music', ability: 'cha' },
+  drum: { key: 'drum', category: 'music', ability: 'cha' },
+  dulcimer: { key: 'dulcimer', category: 'music', ability: 'cha' },
+  flute: { key: 'flute', category: 'music', ability: 'cha' },
+  horn: { key: 'horn', category: 'music', ability: 'cha' },
+  lute: { key: 'lute', category: 'music', ability: 'cha' },
+  lyre: { key: 'lyre', category: 'music', ability: 'cha' },
+  'pan-flute': { key: 'panflute', category: 'music', ability: 'cha' },
+  shawm: { key: 'shawm', category: 'music', ability: 'cha' },
+  viol: { key: 'viol', category: 'music', ability: 'cha' },
+  'vehicles-land': { key: 'land', category: 'vehicle', ability: 'dex' },
+  'vehicles-water': { key: 'water', category: 'vehicle', ability: 'dex' },
+  'vehicles-air': { key: 'air', category: 'vehicle', ability: 'dex' },
+  'vehicles-space': { key: 'space', category: 'vehicle', ability: 'dex' },
+};
+
+const TOOL_PATTERN = /tool|kit|supplies|utensils|-set\b|instrument|vehicle/;
+
+/**
+ * DDB language subType -> dnd5e language path (category:key); the last
+ * segment is the actor trait key
+ */
+export const LANGUAGES: Record<string, string> = {
+  common: 'standard:common',
+  dwarvish: 'standard:dwarvish',
+  elvish: 'standard:elvish',
+  giant: 'standard:giant',
+  gnomish: 'standard:gnomish',
+  goblin: 'standard:goblin',
+  halfling: 'standard:halfling',
+  orc: 'standard:orc',
+  aarakocra: 'exotic:aarakocra',
+  abyssal: 'exotic:abyssal',
+  celestial: 'exotic:celestial',
+  'deep-speech': 'exotic:deep',
+  draconic: 'exotic:draconic',
+  gith: 'exotic:gith',
+  gnoll: 'exotic:gnoll',
+  infernal: 'exotic:infernal',
+  primordial: 'exotic:primordial',
+  aquan: 'exotic:primordial:aquan',
+  auran: 'exotic:primordial:auran',
+  ignan: 'exotic:primordial:ignan',
+  terran: 'exotic:primordial:terran',
+  sylvan: 'exotic:sylvan',
+  undercommon: 'exotic:undercommon',
+  druidic: 'druidic',
+  'thieves-cant': 'cant',
+};
+
+/**
+ * Language entries DDB uses for a choice the player has not made yet
+ */
+const LANGUAGE_CHOICE_PATTERN = /choice|choose/;
+
+export type ProficiencyKind = 'weapon' | 'armor' | 'tool';
+
+export interface ResolvedLanguages {
+  value: string[];
+  custom: string;
+  communication: Record<string, { value: number; units: string }>;
+}
+
+export interface ResolvedProficiencies {
+  weaponProf: { value: string[]; custom: string };
+  armorProf: { value: string[]; custom: string };
+  toolProf: { value: string[]; custom: string };
+  tools: Record<string, FoundryToolProficiency>;
+}
+
+/**
+ * Maps DDB weapon, armor and tool proficiency modifiers to dnd5e config keys
+ *
+ * Categories map to sim/mar and lgt/med/hvy/shl, single weapons to their base
+ * item id and tools to their tool id. Proficiencies dnd5e has no key for
+ * (firearms, homebrew tools) keep their DDB name in the trait's custom text.
+ */
+export class ProficiencyMapper {
+  /**
+   * Weapon, armor and tool proficiencies from a set of modifiers, with tool
+   * proficiency level (expertise included) and default ability
+   */
+  static resolve(modifiers: SourcedModifier[]): ResolvedProficiencies {
+    const weapons = new Set<string>();
+    const armor = new Set<string>();
+    const custom: Record<ProficiencyKind, Set<string>> = { weapon: new Set(), armor: new Set(), tool: new Set() };
+    const tools: Record<string, FoundryToolProficiency> = {};
+
+    ModifierResolver.filterModifiers(modifiers, ['proficiency', 'expertise']).forEach(modifier => {
+      const subType = modifier.subType?.toLowerCase() ?? '';
+      const weapon = this.getWeaponKey(subType);
+      const armorKey = ARMOR_PROFICIENCIES[subType];
+      const tool = TOOL_PROFICIENCIES[subType];
+
+      if (weapon) weapons.add(weapon);
+      else if (armorKey) armor.add(armorKey);
+      else if (tool) {
+        const value = Math.max(tools[tool.key]?.value ?? 0, ModifierResolver.getProficiencyLevel(modifiers, subType));
+        tools[tool.key] = { value, ability: tool.ability, bonuses: { check: '' } };
+      } else {
+        const kind = this.getUnmappedKind(modifier);
+        if (kind) custom[kind].add(modifier.friendlySubtypeName || subType);
+      }
+    });
+
+    const toCustom = (names: Set<string>) => Array.from(names).join('; ');
+    return {
+      weaponProf: { value: Array.from(weapons), custom: toCustom(custom.weapon) },
+      armorProf: { value: Array.from(armor), custom: toCustom(custom.armor) },
+      toolProf: { value: Object.keys(tools), custom: toCustom(custom.tool) },
+      tools,
+    };
+  }
+
+  /**
+   * Known languages as dnd5e keys plus telepathy. Unresolved "of your choice"
+   * entries are dropped; unrecognized languages keep their name in custom.
+   * @param names - Language names from outside the modifiers (legacy payloads)
+   */
+  static resolveLanguages(modifiers: SourcedModifier[], names: string[] = []): ResolvedLanguages {
+    const value = new Set<string>();
+    const custom = new Set<string>();
+    const add = (subType: string, name: string) => {
+      if (LANGUAGE_CHOICE_PATTERN.test(subType)) return;
+      const path = LANGUAGES[subType];
+      if (path) value.add(path.split(':').pop() as string);
+      else if (name) custom.add(name);
+    };
+
+    ModifierResolver.filterModifiers(modifiers, 'language').forEach(modifier => {
+      const subType = modifier.subType?.toLowerCase() ?? '';
+      add(subType, modifier.friendlySubtypeName || subType);
+    });
+    names.forEach(name => add(this.toSubType(name), name));
+
+    const telepathy = ModifierResolver.max(ModifierResolver.filterModifiers(modifiers, ['set-base', 'sense'], 'telepathy')) ?? 0;
+    return {
+      value: Array.from(value),
+      custom: Array.from(custom).join('; '),
+      communication: telepathy > 0 ? { telepathy: { value: telepathy, units: 'ft' } } : {},
+    };
+  }
+
+  /**
+   * dnd5e Trait advancement key for a language subType ("languages:exotic:deep")
+   */
+  static getLanguageTraitKey(subType: string): string | null {
+    return LANGUAGES[subType] ? `languages:${LANGUAGES[subType]}` : null;
+  }
+
+  /**
+   * Whether a language entry is a choice the player has not made yet
+   */
+  static isLanguageChoice(subType: string): boolean {
+    return LANGUAGE_CHOICE_PATTERN.test(subType);
+  }
+
+  /**
+   * dnd5e weapon proficiency key: a category (sim, mar) or a base weapon id
+   */
+  static getWeaponKey(subType: string): string | null {
+    if (WEAPON_CATEGORIES[subType]) return WEAPON_CATEGORIES[subType];
+    const id = WEAPON_ALIASES[subType] ?? subType.replace(/-/g, '');
+    return BASE_WEAPONS[id] ? id : null;
+  }
+
+  /**
+   * dnd5e Trait advancement key for a proficiency subType, nested under its
+   * category as dnd5e expects ("weapon:mar:longsword", "tool:art:smith")
+   */
+  static getTraitKey(subType: string): string | null {
+    const weapon = this.getWeaponKey(subType);
+    if (weapon) return BASE_WEAPONS[weapon] ? `weapon:${BASE_WEAPONS[weapon]}:${weapon}` : `weapon:${weapon}`;
+    if (ARMOR_PROFICIENCIES[subType]) return `armor:${ARMOR_PROFICIENCIES[subType]}`;
+    const tool = TOOL_PROFICIENCIES[subType];
+    if (tool) return tool.category ? `tool:${tool.category}:${tool.key}` : `tool:${tool.key}`;
+    return null;
+  }
+
+  /**
+   * DDB-style subType for a display name ("Thieves' Cant" -> "thieves-cant")
+   */
+  private static toSubType(name: string): string {
+    return name.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  /**
+   * Best guess at what an unmapped proficiency is, from its subType. Skills,
+   * saves and anything unrecognisable are left alone.
+   */
+  private static getUnmappedKind(modifier: DDBModifier): ProficiencyKind | null {
+    const subType = modifier.subType?.toLowerCase() ?? '';
+    if (Object.values(SKILL_SUBTYPES).includes(subType)) return null;
+    if (Object.values(ABILITY_SUBTYPES).some(ability => subType.startsWith(ability))) return null;
+    if (subType.includes('armor')) return 'armor';
+    if (subType.includes('weapon') || /^(firearms|pistol|musket|rifle|shotgun|revolver)/.test(subType)) return 'weapon';
+    if (TOOL_PATTERN.test(subType)) return 'tool';
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+import type { DDBCharacter, DDBItem, DDBModifier, DDBSpell, FoundryActiveEffect } from '../../types/index.js';
+import { AbilityScoreCalculator } from '../character/AbilityScoreCalculator.js';
+import { ModifierResolver } from '../character/ModifierResolver.js';
+
+const DEFAULT_EFFECT_ICON = 'icons/svg/aura.svg';
+
+/**
+ * Builds Foundry ActiveEffects from D&D Beyond modifiers
+ *
+ * Item and feat modifiers become transferable effects on the owning embedded
+ * document so that unequipping, unattuning or deleting it reverts the stat.
+ * ModifierResolver leaves those modifiers out of the values CharacterParser
+ * bakes into the actor, so nothing is counted twice.
+ */
+export class ActiveEffectGenerator {
+  /**
+   * Build a single effect from a set of modifiers, or null when none of them map to a change
+   */
+  static fromModifiers(
+    name: string,
+    modifiers: DDBModifier[],
+    options: { img?: string; transfer?: boolean; flags?: Record<string, unknown> } = {}
+  ): FoundryActiveEffect | null {
+    const changes = modifiers.flatMap(modifier => ModifierResolver.getEffectChanges(modifier));
+    if (changes.length === 0) return null;
+
+    return {
+      name,
+      img: options.img ?? DEFAULT_EFFECT_ICON,
+      transfer: options.transfer ?? true,
+      disabled: false,
+      changes,
+      flags: {
+        'beyond-foundry': {
+          generated: true,
+          modifierIds: modifiers.map(modifier => modifier.id),
+          ...options.flags,
+        },
+      },
+    };
+  }
+
+  /**
+   * Effects for an inventory item. Character-level item modifiers are preferred
+   * because they reflect choices made on DDB; grantedModifiers is the fallback
+   * when only the item payload is available.
+   */
+  static forItem(ddbItem: DDBItem, ddbCharacter?: DDBCharacter): FoundryActiveEffect[] {
+    const definition = ddbItem.definition;
+    if (!definition) return [];
+
+    const characterModifiers = (ddbCharacter?.modifiers?.item ?? []).filter(
+      modifier => modifier.componentId === definition.id || modifier.componentId === ddbItem.id
+    );
+    const modifiers = characterModifiers.length > 0 ? characterModifiers : (definition.grantedModifiers ?? []);
+    const effect = this.fromModifiers(definition.name, modifiers, {
+      img: definition.avatarUrl,
+      flags: { ddbItemId: definition.id },
+    });
+    return effect ? [this.withAbilityLimits(effect, ddbCharacter)] : [];
+  }
+
+  /**
+   * Effects for a feat, from the character's feat modifiers that it owns
+   */
+  static forFeat(ddbCharacter: DDBCharacter, featId: number, name: string): FoundryActiveEffect[] {
+    const modifiers = (ddbCharacter.modifiers?.feat ?? []).filter(modifier => modifier.componentId === featId);
+    const effect = this.fromModifiers(name, modifiers, { flags: { ddbFeatId: featId } });
+    return effect ? [this.withAbilityLimits(effect, ddbCharacter)] : [];
+  }
+
+  /**
+   * Ability scores changed by an effect are capped at the character's maximum
+   * (or pinned to an override score), matching AbilityScoreCalculator
+   */
+  private static withAbilityLimits(effect: FoundryActiveEffect, ddbCharacter?: DDBCharacter): FoundryActiveEffect {
+    if (!ddbCharacter) return effect;
+    const abilities = [...new Set(effect.changes
+      .map(change => /^system\.abilities\.(\w+)\.value$/.exec(change.key)?.[1])
+      .filter((ability): ability is string => Boolean(ability)))];
+    if (abilities.length === 0) return effect;
+    return {
+      ...effect,
+      changes: [...effect.changes, ...abilities.map(ability => AbilityScoreCalculator.getEffectLimit(ddbCharacter, ability))],
+    };
+  }
+
+  /**
+   * Effects a spell applies to its targets (e.g. Bless). These are not
+   * transferred to the caster; they are applied from the spell card.
+   */
+  static forSpell(definition: DDBSpell['definition']): FoundryActiveEffect[] {
+    const effect = this.fromModifiers(definition.name, definition.modifiers ?? [], {
+      transfer: false,
+      flags: { ddbSpellId: definition.id },
+    });
+    return effect ? [effect] : [];
+  }
+}
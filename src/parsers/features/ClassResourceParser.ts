@@ -0,0 +1,253 @@
+import type { DDBCharacter, FoundryItem, FoundryResource } from '../../types/index.js';
+import { AbilityScoreCalculator } from '../character/AbilityScoreCalculator.js';
+
+/**
+ * A class resource pool (Ki, Rage, ...) computed for a character
+ */
+export interface ClassResource {
+  key: string;
+  label: string;
+  className: string;
+  max: number;
+  value: number;
+  recovery: 'sr' | 'lr';
+  featureNames: string[];
+  consumers: Record<string, number>;
+  consumerPrefix?: string;
+}
+
+interface ClassResourceDefinition {
+  key: string;
+  label: string;
+  className: string;
+  minLevel: number;
+  max: (level: number, ddbCharacter: DDBCharacter) => number;
+  recovery: (level: number) => 'sr' | 'lr';
+  /** Names of the feature that owns the pool */
+  featureNames: string[];
+  /** Feature name -> amount spent from the pool */
+  consumers: Record<string, number>;
+  /** Features whose name starts with this prefix spend one use */
+  consumerPrefix?: string;
+}
+
+const RESOURCE_SLOTS = ['primary', 'secondary', 'tertiary'];
+
+const RESOURCE_DEFINITIONS: ClassResourceDefinition[] = [
+  {
+    key: 'ki',
+    label: 'Ki Points',
+    className: 'Monk',
+    minLevel: 2,
+    max: level => level,
+    recovery: () => 'sr',
+    featureNames: ['Ki', 'Ki Points'],
+    consumers: {
+      'Flurry of Blows': 1,
+      'Patient Defense': 1,
+      'Step of the Wind': 1,
+      'Stunning Strike': 1,
+    },
+  },
+  {
+    key: 'rage',
+    label: 'Rage',
+    className: 'Barbarian',
+    minLevel: 1,
+    // At 20th level rages are unlimited and are no longer tracked
+    max: level => (level >= 20 ? 0 : level >= 17 ? 6 : level >= 12 ? 5 : level >= 6 ? 4 : level >= 3 ? 3 : 2),
+    recovery: () => 'lr',
+    featureNames: ['Rage'],
+    consumers: { Rage: 1 },
+  },
+  {
+    key: 'sorceryPoints',
+    label: 'Sorcery Points',
+    className: 'Sorcerer',
+    minLevel: 2,
+    max: level => level,
+    recovery: () => 'lr',
+    featureNames: ['Font of Magic', 'Sorcery Points'],
+    consumers: {
+      'Careful Spell': 1,
+      'Distant Spell': 1,
+      'Empowered Spell': 1,
+      'Extended Spell': 1,
+      'Heightened Spell': 3,
+      'Quickened Spell': 2,
+      'Seeking Spell': 2,
+      'Subtle Spell': 1,
+      'Transmuted Spell': 1,
+      'Twinned Spell': 1,
+    },
+  },
+  {
+    key: 'channelDivinity',
+    label: 'Channel Divinity',
+    className: 'Cleric',
+    minLevel: 2,
+    max: level => (level >= 18 ? 3 : level >= 6 ? 2 : 1),
+    recovery: () => 'sr',
+    featureNames: ['Channel Divinity'],
+    consumers: { 'Turn Undead': 1 },
+    consumerPrefix: 'Channel Divinity:',
+  },
+  {
+    key: 'channelDivinity',
+    label: 'Channel Divinity',
+    className: 'Paladin',
+    minLevel: 3,
+    max: () => 1,
+    recovery: () => 'sr',
+    featureNames: ['Channel Divinity'],
+    consumers: {},
+    consumerPrefix: 'Channel Divinity:',
+  },
+  {
+    key: 'bardicInspiration',
+    label: 'Bardic Inspiration',
+    className: 'Bard',
+    minLevel: 1,
+    max: (_level, ddbCharacter) => Math.max(1, ClassResourceParser.getAbilityModifier(ddbCharacter, 'cha')),
+    // Font of Inspiration
+    recovery: level => (level >= 5 ? 'sr' : 'lr'),
+    featureNames: ['Bardic Inspiration'],
+    consumers: {
+      'Bardic Inspiration': 1,
+      'Combat Inspiration': 1,
+      'Cutting Words': 1,
+      'Mantle of Inspiration': 1,
+    },
+  },
+];
+
+/**
+ * Maps D&D Beyond class resource features to Foundry resources and use pools
+ *
+ * The first three pools populate system.resources.primary/secondary/tertiary;
+ * features that spend from a pool consume that attribute. Any further pools are
+ * tracked as uses on the owning feature and consumed as charges instead.
+ */
+export class ClassResourceParser {
+  /**
+   * Compute every class resource pool the character has access to
+   */
+  static getResources(ddbCharacter: DDBCharacter): ClassResource[] {
+    const resources: ClassResource[] = [];
+
+    for (const definition of RESOURCE_DEFINITIONS) {
+      const ddbClass = ddbCharacter.classes?.find(
+        cls => cls.definition?.name?.toLowerCase() === definition.className.toLowerCase()
+      );
+      const level = ddbClass?.level ?? 0;
+      if (level < definition.minLevel) continue;
+
+      const max = definition.max(level, ddbCharacter);
+      if (max <= 0) continue;
+
+      const used = this.getUsed(ddbCharacter, definition.featureNames);
+      // Multiclass Cleric/Paladin share one Channel Divinity pool: taking the
+      // feature again only raises the uses to the better class's count
+      const shared = resources.find(resource => resource.key === definition.key);
+      if (shared) {
+        shared.max = Math.max(shared.max, max);
+        shared.value = Math.max(0, shared.max - used);
+        shared.className = `${shared.className}/${definition.className}`;
+        shared.consumers = { ...shared.consumers, ...definition.consumers };
+        continue;
+      }
+
+      resources.push({
+        key: definition.key,
+        label: definition.label,
+        className: definition.className,
+        max,
+        value: Math.max(0, max - used),
+        recovery: definition.recovery(level),
+        featureNames: definition.featureNames,
+        consumers: definition.consumers,
+        consumerPrefix: definition.consumerPrefix,
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * Fill the actor's primary/secondary/tertiary resources from the first three pools
+   */
+  static toFoundryResources(resources: ClassResource[]): Record<string, FoundryResource> {
+    const foundryResources: Record<string, FoundryResource> = {};
+    RESOURCE_SLOTS.forEach((slot, index) => {
+      const resource = resources[index];
+      foundryResources[slot] = resource
+        ? {
+            value: resource.value,
+            max: resource.max,
+            sr: resource.recovery === 'sr',
+            lr: true,
+            label: resource.label,
+          }
+        : { value: 0, max: 0, sr: false, lr: false, label: '' };
+    });
+    return foundryResources;
+  }
+
+  /**
+   * Link parsed features to their resource pools: pool owners receive uses when
+   * the pool has no actor resource slot, and consumers get consume targets
+   */
+  static linkFeatureUses(features: FoundryItem[], resources: ClassResource[]): FoundryItem[] {
+    resources.forEach((resource, index) => {
+      const slot = RESOURCE_SLOTS[index];
+      const owner = features.find(feature => resource.featureNames.includes(feature.name));
+
+      if (!slot && owner) {
+        owner.system.uses = { value: resource.value, max: resource.max, per: resource.recovery, recovery: '' };
+      }
+
+      features.forEach(feature => {
+        const amount = this.getConsumedAmount(resource, feature.name);
+        if (amount === 0) return;
+        if (slot) {
+          feature.system.consume = { type: 'attribute', target: `resources.${slot}.value`, amount };
+        } else if (owner && owner !== feature) {
+          // The owner keeps this id when embedded, so the target survives creation
+          owner.id = this.getPoolItemId(resource);
+          feature.system.consume = { type: 'charges', target: owner.id, amount };
+        }
+      });
+    });
+
+    return features;
+  }
+
+  /**
+   * Ability modifier from the character's final ability score on D&D Beyond
+   */
+  static getAbilityModifier(ddbCharacter: DDBCharacter, ability: string): number {
+    const score = AbilityScoreCalculator.getScore(ddbCharacter, ability, { includeTransferred: true });
+    return Math.floor((score - 10) / 2);
+  }
+
+  /**
+   * Static Foundry item id for the feature that owns a pool
+   */
+  private static getPoolItemId(resource: ClassResource): string {
+    return resource.key.replace(/[^a-zA-Z0-9]/g, '').padEnd(16, '0').slice(0, 16);
+  }
+
+  private static getConsumedAmount(resource: ClassResource, featureName: string): number {
+    if (resource.consumers[featureName] !== undefined) return resource.consumers[featureName];
+    if (resource.consumerPrefix && featureName.startsWith(resource.consumerPrefix)) return 1;
+    return 0;
+  }
+
+  /**
+   * Uses already spent, as tracked on the matching DDB class action
+   */
+  private static getUsed(ddbCharacter: DDBCharacter, featureNames: string[]): number {
+    const action = (ddbCharacter.actions?.class ?? []).find(entry => featureNames.includes(entry.name));
+    return action?.limitedUse?.numberUsed ?? 0;
+  }
+}
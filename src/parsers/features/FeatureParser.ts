@@ -1,6 +1,8 @@
 import type { DDBCharacter, DDBFeature } from '../../types/index.js';
 import { Logger, getErrorMessage } from '../../module/utils/logger.js';
-import type { FoundryItem, FoundryItemSystemData } from '../../types/index.js';
+import type { FoundryActiveEffect, FoundryItem, FoundryItemSystemData } from '../../types/index.js';
+import { ClassResourceParser } from './ClassResourceParser.js';
+import { ActiveEffectGenerator } from '../effects/ActiveEffectGenerator.js';
 
 export class FeatureParser {
   /**
@@ -35,12 +37,19 @@ export class FeatureParser {
       }
       if (Array.isArray(ddbCharacter.feats) && ddbCharacter.feats.length > 0) {
         const feats = FeatureParser.toDDBFeatureArray(ddbCharacter.feats as Record<string, unknown>[]);
-        features.push(...(await this.parseFeats(feats)));
+        const featFeatures = await this.parseFeats(feats);
+        // Feat modifiers travel with the feat as transferable effects
+        featFeatures.forEach(feature => {
+          feature.effects = this.parseActiveEffects(ddbCharacter, feature, 'feat');
+        });
+        features.push(...featFeatures);
       }
       if (Array.isArray(ddbCharacter.background?.customBackground?.featuresBackground) && ddbCharacter.background.customBackground.featuresBackground.length > 0) {
         const backgroundFeatures = FeatureParser.toDDBFeatureArray(ddbCharacter.background.customBackground.featuresBackground as Record<string, unknown>[]);
         features.push(...(await this.parseBackgroundFeatures(backgroundFeatures)));
       }
+      // Link resource pools (Ki, Rage, ...) to the features that spend them
+      ClassResourceParser.linkFeatureUses(features, ClassResourceParser.getResources(ddbCharacter));
       Logger.info(`Parsed ${features.length} features from character`);
       return features;
     } catch (error) {
@@ -199,6 +208,7 @@ export class FeatureParser {
             type: this.type,
             img: this.img || '',
             system: this.system,
+            effects: this.effects || [],
             flags: this.flags || {}
           };
         }
@@ -596,10 +606,12 @@ export class FeatureParser {
   }
 
   /**
-   * Parse active effects
+   * Parse active effects for a parsed feature. Feat modifiers become transferable
+   * effects; class and racial modifiers are still applied to the actor directly.
    */
-  static parseActiveEffects(): never[] {
-    return [];
+  static parseActiveEffects(ddbCharacter: DDBCharacter, feature: FoundryItem, type: string): FoundryActiveEffect[] {
+    if (type !== 'feat') return [];
+    return ActiveEffectGenerator.forFeat(ddbCharacter, Number(feature.id), feature.name);
   }
 }
 // No local FoundryItem interface, use imported type
@@ -1,8 +1,15 @@
 // Barrel file for all parsers
 export { CharacterParser } from './character/CharacterParser.js';
+export { AbilityScoreCalculator } from './character/AbilityScoreCalculator.js';
+export { EncumbranceCalculator } from './character/EncumbranceCalculator.js';
+export { ProficiencyMapper } from './character/ProficiencyMapper.js';
 export { SpellParser } from './spells/SpellParser.js';
+export { SpellSlotCalculator } from './spells/SpellSlotCalculator.js';
+export { SpellcastingCalculator } from './spells/SpellcastingCalculator.js';
 export { ItemParser } from './items/ItemParser.js';
 export { FeatureParser } from './features/FeatureParser.js';
+export { ClassResourceParser } from './features/ClassResourceParser.js';
+export { ActiveEffectGenerator } from './effects/ActiveEffectGenerator.js';
 export { MonsterParser } from './MonsterParser.js';
 export { AdventureParser } from './AdventureParser.js';
 export { BackgroundParser } from './BackgroundParser.js';
@@ -10,3 +17,4 @@ export { RaceParser } from './RaceParser.js';
 export { ClassParser } from './ClassParser.js';
 export { RuleParser } from './RuleParser.js';
 export { FeatParser } from './FeatParser.js';
+export { ActivityAdapter } from './activities/ActivityAdapter.js';
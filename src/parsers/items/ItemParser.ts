@@ -1,5 +1,32 @@
-import type { DDBCharacter, DDBItem } from '../../types/index.js';
+import type { DDBCharacter, DDBItem, DDBSpell, FoundryActiveEffect, FoundryItemData, FoundrySpell, ItemSpell } from '../../types/index.js';
 import { Logger, getErrorMessage } from '../../module/utils/logger.js';
+import { ActiveEffectGenerator } from '../effects/ActiveEffectGenerator.js';
+import { CharacterOverrides } from '../character/CharacterOverrides.js';
+import { FeatureParser } from '../features/FeatureParser.js';
+import { SpellParser } from '../spells/SpellParser.js';
+
+/**
+ * Spell scroll save DC, attack bonus and rarity by spell level (DMG p. 200)
+ */
+const SPELL_SCROLLS: Array<{ dc: number; attack: number; rarity: string }> = [
+  { dc: 13, attack: 5, rarity: 'common' },
+  { dc: 13, attack: 5, rarity: 'common' },
+  { dc: 13, attack: 5, rarity: 'uncommon' },
+  { dc: 15, attack: 7, rarity: 'uncommon' },
+  { dc: 15, attack: 7, rarity: 'rare' },
+  { dc: 17, attack: 9, rarity: 'rare' },
+  { dc: 17, attack: 9, rarity: 'veryRare' },
+  { dc: 18, attack: 10, rarity: 'veryRare' },
+  { dc: 18, attack: 10, rarity: 'veryRare' },
+  { dc: 19, attack: 11, rarity: 'legendary' },
+];
+
+const SPELL_SCROLL_PATTERN = /^spell scroll\b/i;
+
+/**
+ * Generic scrolls are named by level ("Spell Scroll (3rd Level)") rather than spell
+ */
+const SCROLL_LEVEL_PATTERN = /^(cantrip|\d+(st|nd|rd|th) level)$/i;
 
 /**
  * Parser for D&D Beyond items and equipment
@@ -9,11 +36,11 @@ export class ItemParser {
   /**
    * Parse an array of D&D Beyond items to Foundry format
    */
-  static async parseItemArray(ddbItems: DDBItem[]): Promise<FoundryItem[]> {
+  static async parseItemArray(ddbItems: DDBItem[], ddbCharacter?: DDBCharacter): Promise<FoundryItem[]> {
     const items: FoundryItem[] = [];
     for (const ddbItem of ddbItems) {
       try {
-        const foundryItem = this.parseItem(ddbItem);
+        const foundryItem = this.parseItem(ddbItem, ddbCharacter);
         if (foundryItem) {
           items.push(foundryItem);
         }
@@ -33,37 +60,44 @@ export class ItemParser {
       Logger.warn('No inventory found for character');
       return [];
     }
-    return this.parseItemArray(ddbCharacter.inventory);
+    return this.parseItemArray(ddbCharacter.inventory, ddbCharacter);
   }
 
   /**
-   * Parse a single D&D Beyond item to Foundry format
+   * Parse a single D&D Beyond item to Foundry format.
+   * Pass the owning character so item effects use its resolved modifiers.
    */
-  static parseItem(ddbItem: DDBItem): FoundryItem | null {
+  static parseItem(ddbItem: DDBItem, ddbCharacter?: DDBCharacter): FoundryItem | null {
     try {
       if (!ddbItem.definition) {
         Logger.warn('Item has no definition, skipping');
         return null;
       }
 
+      const scrollSpell = this.getScrollSpell(ddbItem, ddbCharacter);
+      if (scrollSpell) {
+        return this.parseInventoryScroll(ddbItem, SpellParser.parseSpell(scrollSpell), ddbCharacter);
+      }
+
       const itemType = this.getFoundryItemType(ddbItem);
       const foundryItem: FoundryItem = {
         name: ddbItem.definition.name,
         type: itemType,
         img: this.getItemImage(ddbItem),
         system: this.parseItemSystem(ddbItem, itemType),
-        effects: [],
+        effects: ActiveEffectGenerator.forItem(ddbItem, ddbCharacter),
         flags: {
           'beyond-foundry': {
             ddbId: ddbItem.id,
             sourceId: ddbItem.definition.id,
             origin: 'D&D Beyond',
-            itemType: ddbItem.definition.type
+            itemType: ddbItem.definition.type,
+            ...this.getItemSpellsFlag(ddbItem, ddbCharacter)
           }
         }
       };
 
-      return foundryItem;
+      return CharacterOverrides.applyToItem(foundryItem, ddbItem.id, ddbCharacter);
 
     } catch (error) {
       Logger.error(`Item parsing error: ${getErrorMessage(error)}`);
@@ -71,11 +105,142 @@ export class ItemParser {
     }
   }
 
+  /**
+   * Spell scroll holding a parsed spell. The scroll casts with the DMG's fixed save DC
+   * and attack bonus for the spell's level rather than its reader's, and is used up.
+   */
+  static parseSpellScroll(spell: FoundrySpell): FoundryItemData {
+    const level = Math.min(Math.max(spell.system.level ?? 0, 0), 9);
+    const scroll = SPELL_SCROLLS[level] ?? SPELL_SCROLLS[0]!;
+    const { system } = spell;
+
+    return {
+      name: `Spell Scroll: ${spell.name}`,
+      type: 'consumable',
+      img: spell.img || 'icons/sundries/scrolls/scroll-runed-brown-purple.webp',
+      system: {
+        description: {
+          value: `<p>This scroll holds the <em>${spell.name}</em> spell. Casting it from the scroll ` +
+            `uses a save DC of ${scroll.dc} and an attack bonus of +${scroll.attack}.</p><hr />${system.description.value}`,
+          chat: system.description.chat,
+          unidentified: ''
+        },
+        source: system.source,
+        quantity: 1,
+        weight: 0.1,
+        price: { value: 0, denomination: 'gp' },
+        attunement: 0,
+        equipped: false,
+        rarity: scroll.rarity,
+        identified: true,
+        type: { value: 'scroll', subtype: '' },
+        properties: ['mgc', ...(system.components.concentration ? ['concentration'] : [])],
+        uses: { value: 1, max: '1', per: 'charges', recovery: '', autoDestroy: true },
+        activation: system.activation,
+        duration: system.duration,
+        target: system.target,
+        range: system.range,
+        ability: '',
+        actionType: system.actionType,
+        attackBonus: '',
+        attack: { bonus: String(scroll.attack), flat: true },
+        chatFlavor: system.chatFlavor,
+        critical: system.critical,
+        damage: system.damage,
+        formula: system.formula,
+        save: { ability: system.save.ability, dc: system.save.ability ? scroll.dc : null, scaling: 'flat' },
+        level,
+        school: system.school,
+        materials: system.materials
+      },
+      effects: [...(spell.effects ?? [])] as FoundryActiveEffect[],
+      flags: {
+        'beyond-foundry': {
+          ddbId: spell.flags?.['beyond-foundry']?.ddbId,
+          origin: 'D&D Beyond',
+          itemType: 'Scroll',
+          scrollSpell: spell.name
+        }
+      }
+    };
+  }
+
+  /**
+   * Spell scroll from the inventory holding a parsed spell, keeping the stack
+   * size and the inventory item's DDB ids
+   */
+  static parseInventoryScroll(ddbItem: DDBItem, spell: FoundrySpell, ddbCharacter?: DDBCharacter): FoundryItem {
+    const scroll = this.parseSpellScroll(spell);
+    return CharacterOverrides.applyToItem({
+      name: scroll.name,
+      type: scroll.type,
+      img: scroll.img ?? this.getItemImage(ddbItem),
+      system: { ...scroll.system, quantity: ddbItem.quantity || 1 },
+      effects: scroll.effects ?? [],
+      flags: {
+        'beyond-foundry': {
+          ...(scroll.flags?.['beyond-foundry'] as Record<string, unknown>),
+          ddbId: ddbItem.id,
+          sourceId: ddbItem.definition.id
+        }
+      }
+    }, ddbItem.id, ddbCharacter);
+  }
+
+  /**
+   * Whether an inventory item is a spell scroll, by its DDB name
+   */
+  static isSpellScroll(ddbItem: DDBItem): boolean {
+    return SPELL_SCROLL_PATTERN.test(ddbItem.definition?.name ?? '');
+  }
+
+  /**
+   * Spell named on a scroll, "Fireball" for "Spell Scroll (Fireball)"
+   */
+  static getScrollSpellName(ddbItem: DDBItem): string | null {
+    if (!this.isSpellScroll(ddbItem)) return null;
+    const name = ddbItem.definition.name.match(/\(([^)]+)\)/)?.[1]?.trim();
+    return name && !SCROLL_LEVEL_PATTERN.test(name) ? name : null;
+  }
+
+  /**
+   * Spell DDB lists for a scroll among the character's item spells
+   */
+  static getScrollSpell(ddbItem: DDBItem, ddbCharacter?: DDBCharacter): DDBSpell | undefined {
+    if (!this.isSpellScroll(ddbItem)) return undefined;
+    return (ddbCharacter?.spells?.item ?? []).find(ddbSpell => ddbSpell.componentId === ddbItem.definition.id && ddbSpell.definition);
+  }
+
+  /**
+   * Spells an item casts by spending charges, from the character's item spells
+   * (DDB sets componentId to the item definition id). A Staff of Fire lists
+   * Burning Hands at 1 charge, Fireball at 3 and Wall of Fire at 4.
+   */
+  static getItemSpells(ddbItem: DDBItem, ddbCharacter?: DDBCharacter): ItemSpell[] {
+    return (ddbCharacter?.spells?.item ?? [])
+      .filter(ddbSpell => ddbSpell.componentId === ddbItem.definition?.id && (ddbSpell.limitedUse?.minNumberConsumed ?? 0) > 0)
+      .map(ddbSpell => {
+        const charges = ddbSpell.limitedUse?.minNumberConsumed ?? 1;
+        return {
+          ddbId: ddbSpell.definition.id,
+          name: ddbSpell.definition.name,
+          level: ddbSpell.castAtLevel ?? ddbSpell.definition.level,
+          charges,
+          scale: (ddbSpell.limitedUse?.maxNumberConsumed ?? charges) > charges
+        };
+      });
+  }
+
+  private static getItemSpellsFlag(ddbItem: DDBItem, ddbCharacter?: DDBCharacter): { spells?: ItemSpell[] } {
+    const spells = this.getItemSpells(ddbItem, ddbCharacter);
+    return spells.length > 0 ? { spells } : {};
+  }
+
   /**
    * Determine Foundry item type from D&D Beyond item
    */
   private static getFoundryItemType(ddbItem: DDBItem): string {
-    const ddbType = ddbItem.definition?.type?.toLowerCase();
+    const ddbType = this.getDDBType(ddbItem);
     
     switch (ddbType) {
       case 'weapon':
@@ -127,7 +292,8 @@ export class ItemParser {
       attunement: this.parseAttunement(ddbItem),
       equipped: ddbItem.equipped || false,
       rarity: this.parseRarity(ddbItem),
-      identified: true
+      identified: true,
+      ...(ddbItem.limitedUse?.maxUses ? { uses: ItemParser.parseCharges(ddbItem) } : {})
     };
 
     switch (itemType) {
@@ -144,6 +310,19 @@ export class ItemParser {
     }
   }
 
+  /**
+   * Charges on wands, staves and other limited-use items, less those spent on DDB
+   */
+  static parseCharges(ddbItem: DDBItem): { value: number; max: string; per: string; recovery: string } {
+    const maxUses = ddbItem.limitedUse?.maxUses ?? 0;
+    return {
+      value: Math.max(maxUses - (ddbItem.limitedUse?.numberUsed ?? 0), 0),
+      max: String(maxUses),
+      per: FeatureParser.getUsePeriod(ddbItem.limitedUse?.resetType ?? undefined) || 'charges',
+      recovery: '',
+    };
+  }
+
   /**
    * Parse weapon-specific system data
    */
@@ -272,8 +451,14 @@ export class ItemParser {
   private static parseWeaponRange(_weaponData: unknown): Record<string, unknown> { void _weaponData; return { value: 5, long: null, units: 'ft' }; }
   private static getEquipmentType(_equipData: unknown): string { void _equipData; return 'clothing'; }
   private static parseArmorData(_equipData: unknown): Record<string, unknown> { void _equipData; return { type: 'clothing', value: 10, dex: null }; }
+  /**
+   * DDB type, falling back to the filter type magic items such as scrolls and wands carry
+   */
+  private static getDDBType(ddbItem: DDBItem): string | undefined {
+    return (ddbItem.definition?.type || ddbItem.definition?.filterType)?.toLowerCase();
+  }
   private static getConsumableType(ddbItem: DDBItem): string {
-    const type = ddbItem.definition?.type?.toLowerCase();
+    const type = this.getDDBType(ddbItem);
     switch (type) {
       case 'potion': return 'potion';
       case 'scroll': return 'scroll';
@@ -301,6 +486,6 @@ interface FoundryItem {
   type: string;
   img: string;
   system: Record<string, unknown>;
-  effects: unknown[];
+  effects: FoundryActiveEffect[];
   flags: Record<string, unknown>;
 }
@@ -1,5 +1,48 @@
 import { Logger } from '../../module/utils/logger.js';
-import type { DDBSpell, FoundrySpell, SpellParsingOptions } from '../../types/index.js';
+import type {
+  ClassSpellcasting,
+  DDBCharacter,
+  DDBHigherLevelDefinition,
+  DDBModifier,
+  DDBSpell,
+  DDBSpellModifier,
+  FoundrySpell,
+  GrantedSpellSource,
+  SpellParsingOptions,
+} from '../../types/index.js';
+import { ActiveEffectGenerator } from '../effects/ActiveEffectGenerator.js';
+import { AbilityScoreCalculator } from '../character/AbilityScoreCalculator.js';
+import { SpellcastingCalculator } from './SpellcastingCalculator.js';
+
+/**
+ * ddbCharacter.spells buckets for spells granted outside the class spell lists
+ */
+export const GRANTED_SPELL_SOURCES: GrantedSpellSource['source'][] = ['race', 'feat', 'item', 'background'];
+
+/**
+ * Spell modifier subTypes that heal, by dnd5e damage part type
+ */
+const HEALING_TYPES: Record<string, string> = {
+  'hit-points': 'healing',
+  'temporary-hit-points': 'temphp',
+};
+
+/**
+ * DDB area of effect shapes to dnd5e template types. Emanations (2024 rules)
+ * follow the caster like a self-centred sphere.
+ */
+const AOE_TYPES: Record<string, string> = {
+  cone: 'cone',
+  cube: 'cube',
+  cylinder: 'cylinder',
+  emanation: 'radius',
+  line: 'line',
+  sphere: 'sphere',
+  square: 'square',
+  wall: 'wall',
+};
+
+const FEET_PER_MILE = 5280;
 
 /**
  * Comprehensive Spell Parser for D&D Beyond to FoundryVTT D&D 5e system
@@ -46,16 +89,16 @@ export class SpellParser {
         duration: this.parseDuration(definition),
         target: this.parseTarget(definition),
         range: this.parseRange(definition),
-        uses: this.parseUses(ddbSpell),
-        consume: this.parseConsume(definition),
-        ability: this.parseAbility(ddbSpell),
+        uses: this.parseUses(ddbSpell, options),
+        consume: this.parseConsume(definition, options),
+        ability: this.parseAbility(ddbSpell, options),
         actionType: this.parseActionType(definition),
-        attackBonus: this.parseAttackBonus(definition),
+        attackBonus: this.parseAttackBonus(definition, options),
         chatFlavor: '',
         critical: this.parseCritical(definition),
         damage: this.parseDamage(definition),
         formula: this.parseFormula(definition),
-        save: this.parseSave(definition),
+        save: this.parseSave(definition, options),
         level: definition.level,
         school: this.parseSchool(definition.school),
         components: this.parseComponents(definition),
@@ -75,6 +118,8 @@ export class SpellParser {
           usesSpellSlot: ddbSpell.usesSpellSlot !== false,
           castAtLevel: typeof ddbSpell.castAtLevel === 'number' ? ddbSpell.castAtLevel : null,
           restriction: typeof ddbSpell.restriction === 'string' ? ddbSpell.restriction : (ddbSpell.restriction == null ? null : String(ddbSpell.restriction)),
+          ...(options.grantedBy && { grantedBy: options.grantedBy }),
+          ...this.parseUpcastTargets(definition),
         },
       },
     };
@@ -93,7 +138,7 @@ export class SpellParser {
     if (definition.ritual) tags.push('Ritual');
     if (definition.concentration) tags.push('Concentration');
     if (definition.components?.material) tags.push('Material Component');
-    if (definition.componentsDescription) tags.push('Focus');
+    if (this.parseComponents(definition).material && this.canUseFocus(definition)) tags.push('Focus');
 
     if (tags.length > 0) {
       description = `<p><strong>Tags:</strong> ${tags.join(', ')}</p>${description}`;
@@ -107,6 +152,14 @@ export class SpellParser {
     return description;
   }
 
+  /**
+   * Whether a spellcasting focus can replace the material component
+   */
+  private static canUseFocus(definition: any): boolean {
+    const materials = this.parseMaterials(definition);
+    return !materials.cost && !materials.consumed;
+  }
+
   /**
    * Parse chat description for spell card display
    */
@@ -188,30 +241,61 @@ export class SpellParser {
    */
   private static parseTarget(definition: any): any {
     const range = definition.range || {};
+    const area = this.parseAreaTarget(
+      range.aoeType,
+      range.aoeSize ?? range.aoeValue,
+      range.origin === 'Self',
+      definition.description
+    );
+    if (area) return area;
 
     const typeMap: Record<string, string> = {
       Self: 'self',
       Touch: 'touch',
       Ranged: 'creature',
       Point: 'space',
-      Line: 'line',
-      Cone: 'cone',
-      Cube: 'cube',
-      Cylinder: 'cylinder',
-      Sphere: 'sphere',
-      Square: 'square',
     };
 
     return {
-      value: range.aoeValue || null,
+      value: null,
       width: null,
       units: 'ft',
-      type: typeMap[range.aoeType || range.origin] || 'creature',
+      type: typeMap[range.origin] || 'creature',
     };
   }
 
   /**
-   * Parse spell range
+   * Measured-template target for a DDB area of effect, or null when the spell has none.
+   * Line width and cylinder height only appear in the description; lines default to 5 ft wide.
+   * @param aoeType - DDB area shape ("Cone", "Sphere", ...), case-insensitive
+   * @param size - Cone/line length, cube/square side, or sphere/cylinder radius in feet
+   * @param selfOrigin - Whether the area is centred on the caster, which dnd5e models as a radius
+   * @param description - Spell description to read line width and cylinder height from
+   */
+  public static parseAreaTarget(
+    aoeType: string | undefined,
+    size: number | undefined,
+    selfOrigin: boolean,
+    description = ''
+  ): FoundrySpell['system']['target'] | null {
+    const template = AOE_TYPES[aoeType?.toLowerCase() ?? ''];
+    if (!template || !size) return null;
+
+    const type = template === 'sphere' && selfOrigin ? 'radius' : template;
+    const width = /(\d+)[- ](?:feet|foot|ft\.?)[- ]wide/i.exec(description)?.[1];
+    const height = /(\d+)[- ](?:feet|foot|ft\.?)[- ](?:high|tall)/i.exec(description)?.[1];
+    return {
+      value: size,
+      width: type === 'line' ? parseInt(width ?? '5', 10) : null,
+      ...(type === 'cylinder' && height ? { height: parseInt(height, 10) } : {}),
+      units: 'ft',
+      type,
+    };
+  }
+
+  /**
+   * Parse spell range. Self-origin areas (Burning Hands' 15-foot cone) have a range of self,
+   * with the area carried by the target; DDB gives ranges of a mile or more in feet.
    */
   private static parseRange(definition: any): any {
     const range = definition.range || {};
@@ -224,20 +308,27 @@ export class SpellParser {
       Unlimited: 'any',
     };
 
+    const units = unitMap[range.origin] || 'ft';
+    const value = units === 'ft' ? range.rangeValue || null : null;
+    if (value && value >= FEET_PER_MILE && value % FEET_PER_MILE === 0) {
+      return { value: value / FEET_PER_MILE, long: null, units: 'mi' };
+    }
+
     return {
-      value: range.rangeValue || null,
+      value,
       long: null,
-      units: unitMap[range.origin] || 'ft',
+      units,
     };
   }
 
   /**
    * Parse spell uses and limitations
    */
-  private static parseUses(ddbSpell: any): any {
+  private static parseUses(ddbSpell: any, options: SpellParsingOptions = {}): any {
     const limitedUse = ddbSpell.limitedUse;
 
-    if (!limitedUse) {
+    // Item spells spend the item's charges rather than uses of their own
+    if (!limitedUse || options.grantedBy?.charges) {
       return {
         value: null,
         max: '',
@@ -253,9 +344,10 @@ export class SpellParser {
       4: 'charges', // Charges
     };
 
+    const maxUses = options.maxUses ?? limitedUse.maxUses;
     return {
-      value: limitedUse.maxUses || null,
-      max: limitedUse.maxUses?.toString() || '',
+      value: maxUses ? Math.max(maxUses - (limitedUse.numberUsed ?? 0), 0) : null,
+      max: maxUses?.toString() || '',
       per: recoveryMap[limitedUse.resetType] || null,
       recovery: '',
     };
@@ -264,7 +356,15 @@ export class SpellParser {
   /**
    * Parse spell resource consumption
    */
-  private static parseConsume(definition: any): any {
+  private static parseConsume(definition: any, options: SpellParsingOptions = {}): any {
+    const charges = options.grantedBy?.charges;
+    if (charges) {
+      // Target is the granting item's id, linked once the item exists on the actor
+      return { type: 'charges', target: '', amount: charges.amount, scale: charges.scale };
+    }
+    if (options.grantedBy) {
+      return { type: '', target: '', amount: 1, scale: false };
+    }
     return {
       type: 'slots',
       target: `spell${definition.level ?? 0}`,
@@ -276,9 +376,10 @@ export class SpellParser {
   /**
    * Parse spellcasting ability
    */
-  private static parseAbility(ddbSpell: any): string | null {
-    // This would typically come from the character's class
-    // For now, return null to use character's default
+  private static parseAbility(ddbSpell: any, options: SpellParsingOptions = {}): string | null {
+    // Spells cast through a class use that class's ability, so multiclass
+    // casters roll each spell with the right stat
+    if (options.spellcasting) return options.spellcasting.ability;
     return ddbSpell.spellCastingAbilityId
       ? this.mapAbilityId(ddbSpell.spellCastingAbilityId)
       : null;
@@ -294,16 +395,18 @@ export class SpellParser {
     if (definition.attackType === 4) return 'rsak'; // Ranged spell attack
     if (definition.saveType) return 'save'; // Saving throw
     if (definition.healingTypes && definition.healingTypes.length > 0) return 'heal';
+    if (this.getRollModifiers(definition).some(modifier => HEALING_TYPES[modifier.subType])) return 'heal';
     return 'other';
   }
 
   /**
    * Parse attack bonus for spell attacks
    */
-  private static parseAttackBonus(definition: any): string {
-    // Attack bonus is typically calculated from spellcasting ability + proficiency
-    // Return empty string to use character's calculated bonus
-    return '';
+  private static parseAttackBonus(definition: any, options: SpellParsingOptions = {}): string {
+    // Attack bonus is typically calculated from spellcasting ability + proficiency;
+    // only bonuses scoped to the casting class (Rod of the Pact Keeper) are added here
+    const classBonus = options.spellcasting?.attackBonus ?? 0;
+    return classBonus !== 0 ? String(classBonus) : '';
   }
 
   /**
@@ -317,12 +420,15 @@ export class SpellParser {
   }
 
   /**
-   * Parse spell damage
+   * Parse spell damage and healing from the definition's damage and
+   * hit-point modifiers, falling back to the flat dice list
    */
   private static parseDamage(definition: any): any {
-    const parts: [string, string][] = [];
+    const parts: [string, string][] = this.getRollModifiers(definition)
+      .map(modifier => [this.getModifierFormula(modifier), HEALING_TYPES[modifier.subType] ?? modifier.subType.toLowerCase()] as [string, string])
+      .filter(([formula]) => formula !== '');
 
-    if (definition.damageTypes && definition.damageTypes.length > 0) {
+    if (parts.length === 0 && definition.damageTypes && definition.damageTypes.length > 0) {
       definition.damageTypes.forEach((damageType: any, index: number) => {
         if (definition.dice && definition.dice[index]) {
           const dice = definition.dice[index];
@@ -355,7 +461,7 @@ export class SpellParser {
   /**
    * Parse saving throw information
    */
-  private static parseSave(definition: any): any {
+  private static parseSave(definition: any, options: SpellParsingOptions = {}): any {
     if (!definition.saveType) {
       return {
         ability: '',
@@ -373,6 +479,16 @@ export class SpellParser {
       6: 'cha',
     };
 
+    // dnd5e cannot scope a DC bonus to one class, so such spells use the class DC as a flat DC
+    const spellcasting = options.spellcasting;
+    if (spellcasting && spellcasting.dcBonus !== 0) {
+      return {
+        ability: abilityMap[definition.saveType] || '',
+        dc: spellcasting.dc,
+        scaling: 'flat',
+      };
+    }
+
     return {
       ability: abilityMap[definition.saveType] || '',
       dc: null, // Will be calculated from character's spell DC
@@ -433,20 +549,36 @@ export class SpellParser {
   }
 
   /**
-   * Parse material components
+   * Parse material components. A spellcasting focus or component pouch stands in for
+   * materials that have no cost and aren't consumed; the rest must be carried.
    */
   private static parseMaterials(definition: any): any {
-    const materialComponent = definition.componentsDescription || '';
-    const cost = this.extractCost(materialComponent);
+    return this.parseMaterialComponent(definition.componentsDescription || definition.components?.materialComponent || '');
+  }
 
+  /**
+   * dnd5e materials data from a material component description
+   */
+  public static parseMaterialComponent(materialComponent: string): FoundrySpell['system']['materials'] {
     return {
       value: materialComponent,
-      consumed: false,
-      cost: cost,
+      consumed: /\bconsume[sd]?\b/i.test(materialComponent),
+      cost: this.extractCost(materialComponent),
       supply: 0,
     };
   }
 
+  /**
+   * Whether an inventory item is the material a spell needs: "Diamond" or
+   * "Diamond (300 gp)" for "a diamond worth 300 gp, which the spell consumes"
+   */
+  public static matchesMaterial(materials: string, itemName: string): boolean {
+    const name = itemName.replace(/\(.*?\)/g, '').trim().toLowerCase();
+    if (!name) return false;
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}(?:s|es)?\\b`, 'i').test(materials);
+  }
+
   /**
    * Parse spell preparation mode and status
    */
@@ -455,15 +587,43 @@ export class SpellParser {
 
     return {
       mode,
-      prepared: ddbSpell.prepared || false,
+      // Granted spells are always available
+      prepared: ddbSpell.prepared || Boolean(options.grantedBy),
     };
   }
 
   /**
    * Parse spell scaling (higher level effects)
+   *
+   * Cantrips use dnd5e's cantrip mode, which steps the damage dice up at
+   * character levels 5, 11 and 17. Leveled spells add the dice DDB lists per
+   * slot level above the spell's own, or one more roll of the base damage
+   * when upcasting adds targets or attacks (Magic Missile's darts). The
+   * higher level text is only scraped for spells without structured modifiers.
    */
   private static parseScaling(definition: any): any {
-    if (!definition.higherLevelDescription) {
+    const modifiers = this.getRollModifiers(definition);
+    const scaled = modifiers.find(modifier => modifier.atHigherLevels?.higherLevelDefinitions?.length);
+
+    if ((definition.level ?? 0) === 0 || definition.scaleType === 'characterlevel') {
+      const hasDamage = modifiers.length > 0 || (definition.dice?.length ?? 0) > 0;
+      return {
+        mode: hasDamage ? 'cantrip' : 'none',
+        formula: scaled ? this.getCantripScalingFormula(scaled) : '',
+      };
+    }
+
+    if (scaled) {
+      const formula = this.getUpcastFormula(definition, scaled);
+      return { mode: formula ? 'level' : 'none', formula };
+    }
+
+    const extra = modifiers.find(modifier => this.getUpcastTargets(modifier) > 0);
+    if (extra) {
+      return { mode: 'level', formula: this.formatDice(extra.die ?? extra.dice) };
+    }
+
+    if (modifiers.length > 0 || !definition.higherLevelDescription) {
       return {
         mode: 'none',
         formula: '',
@@ -479,6 +639,86 @@ export class SpellParser {
     };
   }
 
+  /**
+   * Damage and healing modifiers on a spell definition
+   */
+  private static getRollModifiers(definition: any): DDBSpellModifier[] {
+    return ((definition.modifiers ?? []) as DDBSpellModifier[]).filter(
+      modifier => modifier.type === 'damage' || (modifier.type === 'bonus' && HEALING_TYPES[modifier.subType])
+    );
+  }
+
+  /**
+   * Roll formula for a damage or healing modifier, adding the spellcasting
+   * modifier when DDB says the spell uses it (Cure Wounds)
+   */
+  private static getModifierFormula(modifier: DDBSpellModifier): string {
+    const dice = this.formatDice(modifier.die ?? modifier.dice) || String(modifier.fixedValue || modifier.value || '');
+    if (!dice) return '';
+    return modifier.usePrimaryStat ? `${dice} + @mod` : dice;
+  }
+
+  /**
+   * Cantrip mode multiplies the base dice, which is what DDB's breakpoints do
+   * unless the base has no dice of that size (Booming Blade's follow-up
+   * damage); then the first breakpoint's dice are added per step instead
+   */
+  private static getCantripScalingFormula(modifier: DDBSpellModifier): string {
+    const base = modifier.die ?? modifier.dice;
+    const first = this.sortHigherLevels(modifier.atHigherLevels?.higherLevelDefinitions)[0];
+    if (!first?.dice) return '';
+    if (base?.diceCount && base.diceValue === first.dice.diceValue) return '';
+    return this.formatDice(first.dice);
+  }
+
+  /**
+   * Dice or flat amount added per slot level. dnd5e scales linearly, so
+   * spells that only improve every other slot level are left unscaled.
+   */
+  private static getUpcastFormula(definition: any, modifier: DDBSpellModifier): string {
+    const first = this.sortHigherLevels(modifier.atHigherLevels?.higherLevelDefinitions)[0];
+    if (!first) return '';
+    const perLevel = definition.scaleType === 'spelllevel'
+      ? first.level === (definition.level ?? 0) + 1
+      : (first.level ?? 1) === 1;
+    if (!perLevel) return '';
+    return this.formatDice(first.dice) || (first.value ? String(first.value) : '');
+  }
+
+  /**
+   * Targets or attacks gained per slot level above the spell's own
+   */
+  private static getUpcastTargets(modifier: DDBSpellModifier): number {
+    const extra = modifier.atHigherLevels?.additionalTargets?.[0] ?? modifier.atHigherLevels?.additionalAttacks?.[0];
+    return extra?.value ?? 0;
+  }
+
+  /**
+   * Flag for spells that gain targets when upcast (Hold Person, Magic
+   * Missile), which dnd5e has no scaling field for
+   */
+  private static parseUpcastTargets(definition: any): { upcastTargets?: number } {
+    const targetDefinitions = ((definition.modifiers ?? []) as DDBSpellModifier[])
+      .map(modifier => modifier.atHigherLevels?.additionalTargets?.[0]?.value ?? 0);
+    const upcastTargets = Math.max(0, ...targetDefinitions);
+    return upcastTargets > 0 ? { upcastTargets } : {};
+  }
+
+  private static sortHigherLevels(definitions: DDBHigherLevelDefinition[] = []): DDBHigherLevelDefinition[] {
+    return [...definitions].sort((a, b) => (a.level ?? 0) - (b.level ?? 0));
+  }
+
+  /**
+   * "2d6 + 3" from a DDB dice block
+   */
+  private static formatDice(dice: DDBModifier['dice'] | undefined): string {
+    if (!dice) return '';
+    const parts: string[] = [];
+    if (dice.diceCount && dice.diceValue) parts.push(`${dice.diceCount}d${dice.diceValue}`);
+    if (dice.fixedValue) parts.push(String(dice.fixedValue));
+    return parts.join(' + ');
+  }
+
   /**
    * Parse spell properties/flags
    */
@@ -498,9 +738,7 @@ export class SpellParser {
    * Parse active effects (for automation)
    */
   private static parseActiveEffects(definition: any): any[] {
-    // This would be expanded for spell automation
-    // For now, return empty array
-    return [];
+    return ActiveEffectGenerator.forSpell(definition);
   }
 
   /**
@@ -555,8 +793,8 @@ export class SpellParser {
    * Extract cost from material component description
    */
   private static extractCost(materials: string): number {
-    const costMatch = materials.match(/(\d+)\s*gp/i);
-    return costMatch && costMatch[1] ? parseInt(costMatch[1]) : 0;
+    const costMatch = materials.match(/(\d[\d,]*)\s*gp/i);
+    return costMatch && costMatch[1] ? parseInt(costMatch[1].replace(/,/g, '')) : 0;
   }
 
   /**
@@ -581,6 +819,126 @@ export class SpellParser {
     return '';
   }
 
+  /**
+   * Spells the character knows or has prepared, from the classSpells entry of
+   * each class, cast with that class's spellcasting. Spells a class feature
+   * grants (the "class" bucket of spells) are cast with the spellcasting of
+   * the class that owns the feature, and are always prepared, at will or
+   * limited-use like other granted spells (Armor of Shadows, Fey Presence).
+   */
+  public static parseClassSpells(ddbCharacter: DDBCharacter): FoundrySpell[] {
+    const known = new Set<number>();
+    const classSpells = (ddbCharacter.classSpells ?? []).flatMap(entry => {
+      const ddbClass = ddbCharacter.classes?.find(cls => cls.id === entry.characterClassId);
+      const spellcasting = ddbClass ? SpellcastingCalculator.forClass(ddbCharacter, ddbClass) : null;
+      const seen = new Set<number>();
+      return (entry.spells ?? [])
+        .filter(ddbSpell => {
+          // DDB lists a spell twice when it is both known and granted by a class feature
+          if (!ddbSpell?.definition || seen.has(ddbSpell.definition.id)) return false;
+          seen.add(ddbSpell.definition.id);
+          known.add(ddbSpell.definition.id);
+          return true;
+        })
+        .map(ddbSpell => this.parseSpell(ddbSpell, {
+          preparationMode: this.getClassPreparationMode(ddbSpell, spellcasting),
+          ...(spellcasting && { spellcasting }),
+        }));
+    });
+
+    const featureSpells = (ddbCharacter.spells?.class ?? [])
+      .filter(ddbSpell => ddbSpell?.definition && !known.has(ddbSpell.definition.id))
+      .map(ddbSpell => {
+        const ddbClass = ddbCharacter.classes?.find(cls =>
+          [...(cls.classFeatures ?? []), ...(cls.subclassDefinition?.classFeatures ?? [])]
+            .some(feature => (feature.definition?.id ?? feature.id) === ddbSpell.componentId)
+        );
+        const spellcasting = ddbClass ? SpellcastingCalculator.forClass(ddbCharacter, ddbClass) : null;
+        return this.parseSpell(ddbSpell, {
+          ...this.getGrantedSpellOptions(ddbCharacter, ddbSpell, 'class'),
+          ...(spellcasting && { spellcasting }),
+        });
+      });
+
+    return [...classSpells, ...featureSpells];
+  }
+
+  /**
+   * Preparation mode for a class spell: domain and oath spells are always
+   * prepared, Warlock spells use Pact Magic, everything else is prepared
+   */
+  public static getClassPreparationMode(
+    ddbSpell: DDBSpell,
+    spellcasting: ClassSpellcasting | null = null
+  ): NonNullable<SpellParsingOptions['preparationMode']> {
+    if (ddbSpell.alwaysPrepared) return 'always';
+    if (spellcasting?.progression === 'pact' && (ddbSpell.definition?.level ?? 0) > 0) return 'pact';
+    return 'prepared';
+  }
+
+  /**
+   * Spells granted by the character's race, feats, items and background
+   * (Infernal Legacy, Magic Initiate, Fey Touched, wands and staves)
+   */
+  public static parseGrantedSpells(ddbCharacter: DDBCharacter): FoundrySpell[] {
+    const buckets = (ddbCharacter.spells ?? {}) as Record<string, DDBSpell[] | undefined>;
+    return GRANTED_SPELL_SOURCES.flatMap(source =>
+      (buckets[source] ?? [])
+        .filter(ddbSpell => ddbSpell?.definition)
+        .map(ddbSpell => this.parseSpell(ddbSpell, this.getGrantedSpellOptions(ddbCharacter, ddbSpell, source)))
+    );
+  }
+
+  /**
+   * Preparation, uses and consumption for a granted spell:
+   * - item spells with a charge cost consume the item's charges
+   * - limited-use spells are innate with per-rest uses, scaled by an ability
+   *   modifier or proficiency bonus when DDB says so
+   * - spells castable with the character's slots are always prepared
+   * - anything else is at will
+   */
+  private static getGrantedSpellOptions(
+    ddbCharacter: DDBCharacter,
+    ddbSpell: DDBSpell,
+    source: GrantedSpellSource['source']
+  ): SpellParsingOptions {
+    const limitedUse = ddbSpell.limitedUse;
+    const grantedBy: GrantedSpellSource = { source, componentId: ddbSpell.componentId };
+
+    if (source === 'item' && limitedUse && (limitedUse.minNumberConsumed ?? 0) > 0) {
+      const amount = limitedUse.minNumberConsumed ?? 1;
+      grantedBy.charges = { amount, scale: (limitedUse.maxNumberConsumed ?? amount) > amount };
+      return { preparationMode: 'innate', grantedBy };
+    }
+
+    const maxUses = this.getGrantedMaxUses(ddbCharacter, ddbSpell);
+    if (maxUses > 0) return { preparationMode: 'innate', maxUses, grantedBy };
+    if (ddbSpell.usesSpellSlot) return { preparationMode: 'always', grantedBy };
+    return { preparationMode: 'atwill', grantedBy };
+  }
+
+  /**
+   * Fixed uses plus an ability modifier and/or proficiency bonus, at least one
+   * when scaled
+   */
+  private static getGrantedMaxUses(ddbCharacter: DDBCharacter, ddbSpell: DDBSpell): number {
+    const limitedUse = ddbSpell.limitedUse;
+    if (!limitedUse) return 0;
+
+    let maxUses = limitedUse.maxUses ?? 0;
+    const scaled = Boolean(limitedUse.statModifierUsesId) || Boolean(limitedUse.useProficiencyBonus);
+    if (limitedUse.statModifierUsesId) {
+      const ability = this.mapAbilityId(limitedUse.statModifierUsesId);
+      const score = AbilityScoreCalculator.getScore(ddbCharacter, ability, { includeTransferred: true });
+      maxUses += Math.floor((score - 10) / 2);
+    }
+    if (limitedUse.useProficiencyBonus) {
+      const totalLevel = (ddbCharacter.classes ?? []).reduce((total, cls) => total + (cls.level ?? 0), 0);
+      maxUses += Math.ceil(Math.max(totalLevel, 1) / 4) + 1;
+    }
+    return scaled ? Math.max(maxUses, 1) : maxUses;
+  }
+
   /**
    * Parse multiple spells from character spell list
    */
@@ -0,0 +1,169 @@
+import type {
+  CasterProgression,
+  DDBCharacter,
+  DDBClass,
+  DDBSpellSlotState,
+  FoundrySpellSlot,
+  SpellSlotSummary
+} from '../../types/index.js';
+
+/**
+ * Spell slots per spellcaster level (PHB "Multiclass Spellcaster" table),
+ * indexed by caster level then spell level - 1
+ */
+const SLOT_TABLE: Record<number, number[]> = {
+  1: [2],
+  2: [3],
+  3: [4, 2],
+  4: [4, 3],
+  5: [4, 3, 2],
+  6: [4, 3, 3],
+  7: [4, 3, 3, 1],
+  8: [4, 3, 3, 2],
+  9: [4, 3, 3, 3, 1],
+  10: [4, 3, 3, 3, 2],
+  11: [4, 3, 3, 3, 2, 1],
+  12: [4, 3, 3, 3, 2, 1],
+  13: [4, 3, 3, 3, 2, 1, 1],
+  14: [4, 3, 3, 3, 2, 1, 1],
+  15: [4, 3, 3, 3, 2, 1, 1, 1],
+  16: [4, 3, 3, 3, 2, 1, 1, 1],
+  17: [4, 3, 3, 3, 2, 1, 1, 1, 1],
+  18: [4, 3, 3, 3, 3, 1, 1, 1, 1],
+  19: [4, 3, 3, 3, 3, 2, 1, 1, 1],
+  20: [4, 3, 3, 3, 3, 2, 2, 1, 1],
+};
+
+/**
+ * Warlock Pact Magic slots per warlock level as [slot count, slot level]
+ */
+const PACT_TABLE: Record<number, [number, number]> = {
+  1: [1, 1],
+  2: [2, 1],
+  3: [2, 2],
+  4: [2, 2],
+  5: [2, 3],
+  6: [2, 3],
+  7: [2, 4],
+  8: [2, 4],
+  9: [2, 5],
+  10: [2, 5],
+  11: [3, 5],
+  12: [3, 5],
+  13: [3, 5],
+  14: [3, 5],
+  15: [3, 5],
+  16: [3, 5],
+  17: [4, 5],
+  18: [4, 5],
+  19: [4, 5],
+  20: [4, 5],
+};
+
+const CLASS_PROGRESSION: Record<string, CasterProgression> = {
+  bard: 'full',
+  cleric: 'full',
+  druid: 'full',
+  sorcerer: 'full',
+  wizard: 'full',
+  paladin: 'half',
+  ranger: 'half',
+  artificer: 'artificer',
+  warlock: 'pact',
+};
+
+const SUBCLASS_PROGRESSION: Record<string, CasterProgression> = {
+  'eldritch knight': 'third',
+  'arcane trickster': 'third',
+};
+
+/**
+ * Computes spell slots and Pact Magic for a D&D Beyond character using the
+ * PHB multiclassing rules, so the character importer and the spells endpoint
+ * agree on the same numbers
+ */
+export class SpellSlotCalculator {
+  /**
+   * Calculate spell slots, pact slots and caster level for a character.
+   * Slot values subtract the usage DDB reports in spellSlots / pactMagic.
+   */
+  static calculate(ddbCharacter: DDBCharacter): SpellSlotSummary {
+    const classes = (ddbCharacter.classes ?? []).map(cls => ({
+      name: cls.definition?.name ?? '',
+      level: cls.level ?? 0,
+      progression: this.getCasterProgression(cls),
+    }));
+
+    const casterLevel = this.getCasterLevel(ddbCharacter.classes ?? []);
+    const maxSlots = SLOT_TABLE[casterLevel] ?? [];
+    const slots: Record<string, FoundrySpellSlot> = {};
+    for (let level = 1; level <= 9; level++) {
+      const max = maxSlots[level - 1] ?? 0;
+      const used = this.getUsed(ddbCharacter.spellSlots, level);
+      slots[`spell${level}`] = { value: Math.max(0, max - used), override: null, max };
+    }
+
+    const warlockLevel = classes
+      .filter(cls => cls.progression === 'pact')
+      .reduce((total, cls) => total + cls.level, 0);
+    const [pactMax, pactLevel] = PACT_TABLE[Math.min(warlockLevel, 20)] ?? [0, 1];
+    const pactUsed = this.getUsed(ddbCharacter.pactMagic, pactLevel);
+
+    return {
+      casterLevel,
+      slots,
+      pact: { value: Math.max(0, pactMax - pactUsed), override: null, max: pactMax, level: pactLevel },
+      classes,
+    };
+  }
+
+  /**
+   * Determine how a class contributes to spellcasting, taking subclasses
+   * such as Eldritch Knight and Arcane Trickster into account
+   */
+  static getCasterProgression(ddbClass: DDBClass): CasterProgression {
+    const className = ddbClass.definition?.name?.toLowerCase() ?? '';
+    const subclassName = ddbClass.subclassDefinition?.name?.toLowerCase() ?? '';
+    return CLASS_PROGRESSION[className] ?? SUBCLASS_PROGRESSION[subclassName] ?? 'none';
+  }
+
+  /**
+   * Spellcaster level used to look up shared spell slots. A single
+   * spellcasting class uses its own progression (half casters gain slots at
+   * 2nd level, third casters at 3rd); multiple classes are combined with the
+   * PHB multiclass rules. Pact Magic never contributes.
+   */
+  static getCasterLevel(ddbClasses: DDBClass[]): number {
+    const casters = ddbClasses
+      .map(cls => ({ level: cls.level ?? 0, progression: this.getCasterProgression(cls) }))
+      .filter(cls => cls.progression !== 'none' && cls.progression !== 'pact' && cls.level > 0);
+
+    if (casters.length === 0) return 0;
+
+    if (casters.length === 1) {
+      const { level, progression } = casters[0];
+      switch (progression) {
+        case 'full': return Math.min(level, 20);
+        case 'artificer': return Math.ceil(level / 2);
+        case 'half': return level < 2 ? 0 : Math.ceil(level / 2);
+        case 'third': return level < 3 ? 0 : Math.ceil(level / 3);
+        default: return 0;
+      }
+    }
+
+    const casterLevel = casters.reduce((total, { level, progression }) => {
+      switch (progression) {
+        case 'full': return total + level;
+        case 'artificer': return total + Math.ceil(level / 2);
+        case 'half': return total + Math.floor(level / 2);
+        case 'third': return total + Math.floor(level / 3);
+        default: return total;
+      }
+    }, 0);
+    return Math.min(casterLevel, 20);
+  }
+
+  private static getUsed(states: DDBSpellSlotState[] | undefined, level: number): number {
+    return states?.find(state => state.level === level)?.used ?? 0;
+  }
+}
@@ -0,0 +1,119 @@
+import type { ClassSpellcasting, DDBCharacter, DDBClass } from '../../types/index.js';
+import { ABILITY_SUBTYPES, ModifierResolver, type SourcedModifier } from '../character/ModifierResolver.js';
+import { AbilityScoreCalculator } from '../character/AbilityScoreCalculator.js';
+import { SpellSlotCalculator } from './SpellSlotCalculator.js';
+
+/**
+ * Spellcasting ability by class (or subclass for third casters), used when
+ * the DDB class definition does not carry spellCastingAbilityId
+ */
+const SPELLCASTING_ABILITIES: Record<string, string> = {
+  artificer: 'int',
+  bard: 'cha',
+  cleric: 'wis',
+  druid: 'wis',
+  paladin: 'cha',
+  ranger: 'wis',
+  sorcerer: 'cha',
+  warlock: 'cha',
+  wizard: 'int',
+  'eldritch knight': 'int',
+  'arcane trickster': 'int',
+};
+
+/**
+ * Classes that prepare from their whole class list rather than learning spells
+ */
+const PREPARED_CASTERS = ['artificer', 'cleric', 'druid', 'paladin'];
+
+/**
+ * Computes spellcasting ability, save DC and attack bonus for each class
+ *
+ * Multiclass casters use a different ability per class, and some items only
+ * boost one class's spells (Rod of the Pact Keeper). Those class-scoped
+ * bonuses come either as "<class>-spell-save-dc" / "<class>-spell-attacks"
+ * subTypes or as the global subTypes restricted to that class's spells.
+ */
+export class SpellcastingCalculator {
+  /**
+   * Spellcasting for every class that casts spells, in DDB class order
+   */
+  static calculate(ddbCharacter: DDBCharacter): ClassSpellcasting[] {
+    return (ddbCharacter.classes ?? [])
+      .map(ddbClass => this.forClass(ddbCharacter, ddbClass))
+      .filter((spellcasting): spellcasting is ClassSpellcasting => spellcasting !== null);
+  }
+
+  /**
+   * Spellcasting for a single class, or null when it does not cast spells
+   */
+  static forClass(ddbCharacter: DDBCharacter, ddbClass: DDBClass): ClassSpellcasting | null {
+    const progression = SpellSlotCalculator.getCasterProgression(ddbClass);
+    const ability = this.getAbility(ddbClass);
+    if (progression === 'none' || !ability) return null;
+
+    const className = ddbClass.definition?.name ?? '';
+    const identifier = className.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const totalLevel = (ddbCharacter.classes ?? []).reduce((total, cls) => total + (cls.level ?? 0), 0);
+    const prof = Math.ceil(Math.max(totalLevel, 1) / 4) + 1;
+    const score = AbilityScoreCalculator.getScore(ddbCharacter, ability, { includeTransferred: true });
+    const mod = Math.floor((score - 10) / 2);
+
+    // Stored numbers match the DDB sheet, so effect-backed item bonuses count too
+    const modifiers = ModifierResolver.resolve(ddbCharacter, { includeTransferred: true }).modifiers;
+    const globalDc = ModifierResolver.sum(ModifierResolver.filterModifiers(modifiers, 'bonus', 'spell-save-dc'));
+    const globalAttack = ModifierResolver.sum(ModifierResolver.filterModifiers(modifiers, 'bonus', 'spell-attacks'));
+    const dcBonus = this.getClassBonus(modifiers, className, identifier, 'spell-save-dc');
+    const attackBonus = this.getClassBonus(modifiers, className, identifier, 'spell-attacks');
+
+    return {
+      classId: ddbClass.id,
+      className,
+      identifier,
+      progression,
+      ability,
+      mod,
+      dc: 8 + prof + mod + globalDc + dcBonus,
+      attack: prof + mod + globalAttack + attackBonus,
+      dcBonus,
+      attackBonus,
+    };
+  }
+
+  /**
+   * Whether the class prepares spells from its full class list each day
+   */
+  static isPreparedCaster(ddbClass: DDBClass): boolean {
+    return PREPARED_CASTERS.includes(ddbClass.definition?.name?.toLowerCase() ?? '');
+  }
+
+  /**
+   * Spellcasting ability key for a class, preferring the DDB definition
+   */
+  static getAbility(ddbClass: DDBClass): string {
+    const abilityId = ddbClass.definition?.spellCastingAbilityId ?? ddbClass.subclassDefinition?.spellCastingAbilityId;
+    if (abilityId) return Object.keys(ABILITY_SUBTYPES)[abilityId - 1] ?? '';
+
+    const className = ddbClass.definition?.name?.toLowerCase() ?? '';
+    const subclassName = ddbClass.subclassDefinition?.name?.toLowerCase() ?? '';
+    return SPELLCASTING_ABILITIES[className] ?? SPELLCASTING_ABILITIES[subclassName] ?? '';
+  }
+
+  /**
+   * Bonuses that only apply to one class's spells
+   */
+  private static getClassBonus(
+    modifiers: SourcedModifier[],
+    className: string,
+    identifier: string,
+    subType: string
+  ): number {
+    const scoped = ModifierResolver.filterModifiers(modifiers, 'bonus', `${identifier}-${subType}`)
+      .reduce((total, modifier) => total + ModifierResolver.getValue(modifier), 0);
+    const restricted = ModifierResolver.filterModifiers(modifiers, 'bonus', subType)
+      .filter(modifier => ModifierResolver.isConditional(modifier))
+      .filter(modifier => modifier.restriction?.toLowerCase().includes(className.toLowerCase()))
+      .reduce((total, modifier) => total + ModifierResolver.getValue(modifier), 0);
+    return scoped + restricted;
+  }
+}
@@ -3,40 +3,43 @@ export interface DDBCharacter {
   id: number;
   name: string;
   level: number;
-  race?: {
-    fullName: string;
-    baseRaceName: string;
-    subRaceShortName?: string;
-    size?: string;
-    weightSpeeds?: {
-      normal?: {
-        walk?: number;
-      };
-    };
-    racialTraits?: Array<{
-      definition: {
-        id: number;
-        name: string;
-        description: string;
-        snippet?: string;
-        activation?: {
-          activationType?: string;
-          activationTime?: number;
-        };
-      };
-    }>;
-  };
+  race?: DDBRace;
   classes?: DDBClass[];
   stats?: DDBAbilityScore[];
+  bonusStats?: Array<{ id: number; value: number | null }>;
+  overrideStats?: Array<{ id: number; value: number | null }>;
   modifiers?: Record<string, DDBModifier[]>;
   inventory?: DDBItem[];
   spells?: Record<string, DDBSpell[]>;
+  classSpells?: DDBClassSpells[];
   baseHitPoints?: number;
   bonusHitPoints?: number;
   overrideHitPoints?: number;
   removedHitPoints?: number;
   temporaryHitPoints?: number;
+  customSenses?: Array<{ senseId: number; distance: number | null }>;
+  customSpeeds?: Array<{ movementId: number; distance: number | null }>;
+  actions?: Record<string, DDBAction[] | null>;
+  spellSlots?: DDBSpellSlotState[];
+  pactMagic?: DDBSpellSlotState[];
   currentXp?: number;
+  inspiration?: boolean;
+  deathSaves?: {
+    failCount?: number | null;
+    successCount?: number | null;
+    isStabilized?: boolean;
+  };
+  conditions?: Array<{ id: number; level: number | null }>;
+  characterValues?: DDBCharacterValue[];
+  customItems?: DDBCustomItem[];
+  customProficiencies?: DDBCustomProficiency[];
+  customDefenseAdjustments?: DDBCustomDefenseAdjustment[];
+  preferences?: {
+    progressionType?: number; // 1 = milestone, 2 = XP
+    encumbranceType?: number; // 1 = standard, 2 = none, 3 = variant
+    ignoreCoinWeight?: boolean;
+    [key: string]: unknown;
+  };
   alignmentId?: number;
   spellcastingAbilityId?: number;
   currencies?: {
@@ -47,14 +50,7 @@ export interface DDBCharacter {
     pp: number;
   };
   background?: {
-    definition?: {
-      id?: number;
-      name: string;
-      featureName?: string;
-      featureDescription?: string;
-      languagesDescription?: string;
-      description?: string; // Add missing description property
-    };
+    definition?: DDBBackground;
     customBackground?: {
       featuresBackground?: unknown[];
     };
@@ -98,16 +94,82 @@ export interface DDBClass {
     id: number;
     name: string;
     hitDie: number;
+    description?: string;
+    avatarUrl?: string | null;
+    spellCastingAbilityId?: number | null;
   };
   subclassDefinition?: {
     id: number;
     name: string;
+    description?: string;
+    avatarUrl?: string | null;
+    spellCastingAbilityId?: number | null;
     classFeatures?: DDBClassFeature[];
   };
   level: number;
+  hitDiceUsed?: number;
+  isStartingClass?: boolean;
   classFeatures?: DDBClassFeature[];
 }
 
+export interface DDBAction {
+  id: string | number;
+  name: string;
+  componentId?: number;
+  componentTypeId?: number;
+  limitedUse?: {
+    maxUses?: number;
+    numberUsed?: number;
+    resetType?: number;
+  } | null;
+}
+
+// A value the player entered on the DDB sheet to override or add to a computed value
+export interface DDBCharacterValue {
+  typeId: number;
+  value: number | string | null;
+  notes?: string | null;
+  valueId: string | number | null;
+  valueTypeId: string | number | null;
+  contextId?: string | number | null;
+  contextTypeId?: string | number | null;
+}
+
+export interface DDBCustomItem {
+  id: number;
+  name: string;
+  description?: string | null;
+  weight?: number | null;
+  cost?: number | null;
+  quantity?: number | null;
+  notes?: string | null;
+}
+
+export interface DDBCustomProficiency {
+  id: number;
+  name: string;
+  type: number; // 1 = skill, 2 = tool, 3 = language, 4 = armor, 5 = weapon
+  proficiencyLevel?: number; // 1 = none, 2 = half, 3 = proficient, 4 = expertise
+  statId?: number | null;
+  miscBonus?: number | null;
+  magicBonus?: number | null;
+  override?: number | null;
+  notes?: string | null;
+  description?: string | null;
+}
+
+export interface DDBCustomDefenseAdjustment {
+  type: number; // 1 = damage, 2 = condition
+  adjustmentId: number;
+  source?: string | null;
+}
+
+export interface DDBSpellSlotState {
+  level: number;
+  used: number;
+  available: number;
+}
+
 export interface DDBAbilityScore {
   id: number;
   value: number;
@@ -123,6 +185,38 @@ export interface DDBModifier {
   value: number;
   friendlyTypeName: string;
   friendlySubtypeName: string;
+  fixedValue?: number | null;
+  statId?: number | null;
+  restriction?: string | null;
+  requiresAttunement?: boolean;
+  isGranted?: boolean;
+  componentId?: number;
+  componentTypeId?: number;
+  dice?: {
+    diceCount?: number | null;
+    diceValue?: number | null;
+    fixedValue?: number | null;
+    diceString?: string | null;
+  } | null;
+}
+
+// Damage and healing on a spell definition, with how they grow when upcast
+export interface DDBSpellModifier extends DDBModifier {
+  die?: DDBModifier['dice'];
+  usePrimaryStat?: boolean;
+  atHigherLevels?: {
+    higherLevelDefinitions?: DDBHigherLevelDefinition[];
+    additionalTargets?: DDBHigherLevelDefinition[];
+    additionalAttacks?: DDBHigherLevelDefinition[];
+  } | null;
+}
+
+export interface DDBHigherLevelDefinition {
+  level: number | null; // Character level for cantrips, slot levels (or step) otherwise
+  typeId?: number;
+  dice?: DDBModifier['dice'];
+  value?: number | null;
+  details?: string;
 }
 
 export interface DDBItem {
@@ -148,9 +242,22 @@ export interface DDBItem {
     avatarUrl?: string;
     largeAvatarUrl?: string;
     requiresAttunement?: boolean;
+    filterType?: string;
+    armorClass?: number | null;
+    armorTypeId?: number | null; // 1 = light, 2 = medium, 3 = heavy, 4 = shield
+    grantedModifiers?: DDBModifier[];
+    bundleSize?: number;
+    isContainer?: boolean;
+    weightMultiplier?: number; // Applied to a container's contents; 0 for a Bag of Holding
   };
   quantity: number;
   equipped: boolean;
+  containerEntityId?: number;
+  limitedUse?: {
+    maxUses?: number | null;
+    numberUsed?: number;
+    resetType?: number | null;
+  } | null;
   isAttuned?: boolean; // Added for attunement logic
   [key: string]: unknown;
 }
@@ -239,6 +346,8 @@ export interface DDBSpell {
     range: {
       aoeType?: string;
       aoeSize?: number;
+      /** Name of aoeSize in character payloads */
+      aoeValue?: number;
       origin: string;
       rangeValue?: number;
     };
@@ -259,6 +368,9 @@ export interface DDBSpell {
       pageNumber?: number;
       sourceType?: string;
     }>;
+    modifiers?: DDBSpellModifier[];
+    // 'characterlevel' for cantrips, 'spellscale' per slot level, 'spelllevel' at set slot levels
+    scaleType?: string | null;
   };
   prepared: boolean;
   countsAsKnownSpell: boolean;
@@ -267,6 +379,19 @@ export interface DDBSpell {
   spellListId?: number | null;
   alwaysPrepared?: boolean;
   restriction?: string | null;
+  // Set on race, feat, item and background spells
+  limitedUse?: {
+    maxUses?: number | null;
+    numberUsed?: number;
+    resetType?: number | null;
+    statModifierUsesId?: number | null;
+    useProficiencyBonus?: boolean;
+    minNumberConsumed?: number | null; // Item charges spent per cast
+    maxNumberConsumed?: number | null;
+  } | null;
+  spellCastingAbilityId?: number | null;
+  componentId?: number;
+  componentTypeId?: number;
   [key: string]: unknown;
 }
 
@@ -289,9 +414,17 @@ export interface DDBClassFeature {
     snippet?: string;
     level: number;
     classId: number;
+    spellListIds?: number[];
   };
 }
 
+// Spells a character knows or has prepared, per class
+export interface DDBClassSpells {
+  entityTypeId?: number;
+  characterClassId: number;
+  spells: DDBSpell[];
+}
+
 // Minimal stubs for parser compatibility (expand as needed)
 export interface DDBMonster {
   id: number;
@@ -308,16 +441,52 @@ export interface DDBAdventure {
 }
 
 export interface DDBBackground {
-  id: number;
+  id?: number;
   name: string;
-  // Add more fields as needed for background parsing
+  description?: string;
+  snippet?: string;
+  featureName?: string;
+  featureDescription?: string;
+  languagesDescription?: string;
+  skillProficienciesDescription?: string;
+  toolProficienciesDescription?: string;
+  avatarUrl?: string;
   [key: string]: unknown;
 }
 
 export interface DDBRace {
-  id: number;
-  name: string;
-  // Add more fields as needed for race parsing
+  id?: number;
+  entityRaceId?: number;
+  name?: string;
+  fullName: string;
+  baseRaceName: string;
+  subRaceShortName?: string;
+  size?: string;
+  weightSpeeds?: {
+    normal?: {
+      walk?: number;
+      fly?: number;
+      burrow?: number;
+      swim?: number;
+      climb?: number;
+    };
+  };
+  racialTraits?: Array<{
+    definition: {
+      id: number;
+      name: string;
+      description: string;
+      snippet?: string;
+      activation?: {
+        activationType?: string;
+        activationTime?: number;
+      };
+    };
+  }>;
+  sizeId?: number;
+  description?: string;
+  avatarUrl?: string;
+  isSubRace?: boolean;
   [key: string]: unknown;
 }
 
@@ -386,14 +555,17 @@ export interface FoundryCharacterData {
       };
       dr: {
         value: string[];
+        bypasses?: string[];
         custom?: string;
       };
       di: {
         value: string[];
+        bypasses?: string[];
         custom?: string;
       };
       dv: {
         value: string[];
+        bypasses?: string[];
         custom?: string;
       };
       ci: {
@@ -436,6 +608,7 @@ export interface FoundryActor {
         flat: number | null;
         calc: string;
         formula: string;
+        bonus?: string;
       };
       hp: {
         value: number;
@@ -449,7 +622,7 @@ export interface FoundryActor {
       };
       init?: {
         ability: string;
-        bonus: number;
+        bonus: number | string;
         mod?: number;
         prof?: number;
         total?: number;
@@ -474,6 +647,12 @@ export interface FoundryActor {
       prof: number;
       spellcasting: string;
       spelldc: number;
+      inspiration?: boolean;
+      death?: {
+        success: number;
+        failure: number;
+      };
+      exhaustion?: number;
       encumbrance?: {
         value: number;
         max: number;
@@ -491,6 +670,11 @@ export interface FoundryActor {
           passive: string;
         };
         ability: string;
+        roll?: {
+          min: number | null;
+          max: number | null;
+          mode: number;
+        };
         label?: string;
         mod?: number;
         prof?: number;
@@ -498,6 +682,7 @@ export interface FoundryActor {
         passive?: number;
       }
     >;
+    tools?: Record<string, FoundryToolProficiency>;
     spells: Record<string, FoundrySpellSlot>;
     resources: Record<string, FoundryResource>;
     bonuses?: {
@@ -560,6 +745,7 @@ export interface FoundryActor {
       languages?: {
         value: string[];
         custom?: string;
+        communication?: Record<string, { value: number; units: string }>;
       };
       weaponProf?: {
         value: string[];
@@ -591,10 +777,120 @@ export interface FoundryActor {
       originalData?: unknown;
       parsingVersion?: string;
       features?: string[];
+      armorClass?: ArmorClassBreakdown;
+      hitPoints?: HitPointBreakdown;
+      abilities?: Record<string, AbilityScoreBreakdown>;
+      encumbrance?: EncumbranceData;
+      advantage?: {
+        saves: string[];
+        checks: string[];
+        skills: string[];
+      };
+      progression?: 'xp' | 'milestone';
+      overrides?: Record<string, CharacterOverride>;
     };
+    dnd5e?: {
+      jackOfAllTrades?: boolean;
+      remarkableAthlete?: boolean;
+      initiativeAdv?: boolean;
+      powerfulBuild?: boolean;
+    };
+  };
+}
+
+// Tool proficiency on a dnd5e actor, keyed by tool id
+export interface FoundryToolProficiency {
+  value: number; // 0.5 = half, 1 = proficient, 2 = expertise
+  ability: string;
+  bonuses: {
+    check: string;
   };
 }
 
+// A field whose imported value came from a player-entered override on DDB
+export interface CharacterOverride {
+  source: 'characterValues' | 'overrideStats' | 'customSpeeds' | 'customSenses' | 'customProficiencies' | 'customDefenseAdjustments' | 'customItems';
+  value: unknown;
+  notes?: string;
+}
+
+// Record of how an imported actor's armor class was resolved
+export interface ArmorClassBreakdown {
+  source: 'armor' | 'unarmored' | 'unarmoredMonk' | 'unarmoredBarb' | 'natural' | 'flat';
+  label: string;
+  calc: string;
+  base: number;
+  shield: number;
+  bonus: number;
+  effects: number;
+  total: number;
+}
+
+// Record of how an imported ability score was calculated. value is baked onto
+// the actor; total also includes contributions carried by transferable effects.
+export interface AbilityScoreBreakdown {
+  base: number;
+  other: number;
+  bonuses: AbilityScoreContribution[];
+  max: number;
+  set: AbilityScoreContribution | null;
+  override: number | null;
+  value: number;
+  total: number;
+}
+
+export interface AbilityScoreContribution {
+  source: string;
+  label: string;
+  value: number;
+  effect: boolean;
+}
+
+// Record of how an imported actor's hit points were calculated
+export interface HitPointBreakdown {
+  base: number;
+  baseSource: 'ddb' | 'average';
+  constitution: number;
+  perLevelBonus: number;
+  modifierBonus: number;
+  manualBonus: number;
+  override: number | null;
+  max: number;
+  removed: number;
+  value: number;
+  temp: number;
+}
+
+// How a class contributes to the multiclass spellcaster level
+export type CasterProgression = 'full' | 'half' | 'artificer' | 'third' | 'pact' | 'none';
+
+// Spellcasting ability, save DC and attack bonus of a single class
+export interface ClassSpellcasting {
+  classId: number;
+  className: string;
+  identifier: string;
+  progression: CasterProgression;
+  ability: string;
+  mod: number;
+  dc: number;
+  attack: number;
+  /** Bonuses that only apply to this class's spells */
+  dcBonus: number;
+  attackBonus: number;
+}
+
+// Spell slots computed across all of a character's classes
+export interface SpellSlotSummary {
+  casterLevel: number;
+  slots: Record<string, FoundrySpellSlot>;
+  pact: FoundrySpellSlot & { level: number };
+  classes: Array<{
+    name: string;
+    level: number;
+    progression: CasterProgression;
+  }>;
+}
+
 // Import options
 export interface ImportOptions {
   importItems: boolean;
@@ -602,10 +898,57 @@ export interface ImportOptions {
   updateExisting: boolean;
   createCompendiumItems: boolean;
   spellPreparationMode?: 'prepared' | 'pact' | 'always' | 'atwill' | 'innate';
+  spellbookMode?: boolean; // Import the full class list for prepared casters
+  itemDataModel?: ItemDataModel;
   spellCompendiumName?: string; // Added for compendium spell linking
   itemCompendiumName?: string; // Added for compendium item linking
 }
 
+// Item data shape to emit: dnd5e 3.x action fields or 4.x activities. 'auto' follows the installed system.
+export type ItemDataModel = 'auto' | 'legacy' | 'activities';
+
+// dnd5e 4.x activities
+export type FoundryActivityType = 'attack' | 'save' | 'damage' | 'heal' | 'utility' | 'cast' | 'enchant';
+
+export interface FoundryActivity {
+  _id: string;
+  type: FoundryActivityType;
+  activation: { type: string; value: number | null; condition: string; override: boolean };
+  consumption: {
+    targets: FoundryConsumptionTarget[];
+    scaling: { allowed: boolean; max: string };
+    spellSlot: boolean;
+  };
+  description: { chatFlavor: string };
+  duration: { value: string; units: string; special: string; concentration: boolean; override: boolean };
+  effects: Array<{ _id: string; [key: string]: unknown }>;
+  range: { value: string; units: string; special: string; override: boolean };
+  target: {
+    template: { count: string; contiguous: boolean; type: string; size: string; width: string; height: string; units: string };
+    affects: { count: string; type: string; choice: boolean; special: string };
+    prompt: boolean;
+    override: boolean;
+  };
+  uses: { spent: number; max: string; recovery: Array<{ period: string; type: string; formula: string }> };
+  [key: string]: unknown;
+}
+
+export interface FoundryConsumptionTarget {
+  type: 'activityUses' | 'itemUses' | 'material' | 'hitDice' | 'spellSlots' | 'attribute';
+  target: string;
+  value: string;
+  scaling: { mode: string; formula: string };
+}
+
+export interface FoundryDamagePart {
+  number: number | null;
+  denomination: number | null;
+  bonus: string;
+  types: string[];
+  custom: { enabled: boolean; formula: string };
+  scaling: { mode: string; number: number | null; formula: string };
+}
+
 // API response types
 export interface ImportResult {
   success: boolean;
@@ -666,6 +1009,8 @@ export interface FoundrySpell {
     target: {
       value: number | null;
       width: number | null;
+      /** Cylinder height, used by the dnd5e 4.x template */
+      height?: number;
       units: string;
       type: string;
     };
@@ -741,17 +1086,47 @@ export interface FoundrySpell {
       usesSpellSlot: boolean;
       castAtLevel: number | null;
       restriction: string | null;
+      grantedBy?: GrantedSpellSource;
     };
     [key: string]: unknown;
   };
 }
 
+/**
+ * A spell a charged item can cast, and the charges it costs
+ */
+export interface ItemSpell {
+  ddbId: number;
+  name: string;
+  level: number;
+  charges: number;
+  /** Extra charges raise the spell's level */
+  scale: boolean;
+}
+
 export interface SpellParsingOptions {
   preparationMode?: 'prepared' | 'pact' | 'always' | 'atwill' | 'innate';
   includeUnprepared?: boolean;
   filterByLevel?: number[];
   filterBySchool?: string[];
   customIconMapping?: Record<string, string>;
+  /** Spellcasting of the class the spell is cast through */
+  spellcasting?: ClassSpellcasting;
+  /** Maximum uses for limited-use spells, after ability and proficiency scaling */
+  maxUses?: number;
+  /** Class feature, race, feat, item or background the spell was granted by */
+  grantedBy?: GrantedSpellSource;
+}
+
+// Where a spell outside the class lists came from
+export interface GrantedSpellSource {
+  source: 'class' | 'race' | 'feat' | 'item' | 'background';
+  componentId?: number;
+  // Item spells spend the item's charges instead of slots
+  charges?: {
+    amount: number;
+    scale: boolean;
+  };
 }
 
 // API Response types for endpoints
@@ -804,6 +1179,7 @@ export interface SpellEndpointResponse extends APIResponse {
   data?: {
     spells: FoundrySpell[];
     spellsByLevel: Record<number, FoundrySpell[]>;
+    slots: SpellSlotSummary;
     summary: {
       totalSpells: number;
       preparedSpells: number;
@@ -923,6 +1299,7 @@ export interface FoundryItem {
   type: string;
   img?: string;
   system: FoundryItemSystemData;
+  effects?: FoundryActiveEffect[];
   flags?: Record<string, unknown>;
   toObject(): FoundryItemData;
 }
@@ -932,6 +1309,7 @@ export interface FoundryItemData {
   type: string;
   img?: string;
   system: FoundryItemSystemData;
+  effects?: FoundryActiveEffect[];
   flags?: Record<string, unknown>;
   [key: string]: unknown;
 }
@@ -953,9 +1331,17 @@ export interface EncumbranceData {
   percentage: number;
   encumbered: boolean;
   heavily: boolean;
+  variant: boolean;
+  // Carrying capacity multiplier from size and Powerful Build
+  multiplier: number;
+  thresholds: {
+    encumbered: number;
+    heavilyEncumbered: number;
+  };
+  coins: number;
   total: {
-    value: number;
-    weight: number;
+    value: number; // gp value of inventory and coins
+    weight: number; // every item's own weight, before container rules
   };
 }
 
@@ -1091,6 +1477,7 @@ export interface FoundryItemSystemData {
     max: string | number;
     per: string | null;
     recovery?: string;
+    autoDestroy?: boolean; // Consumables destroyed when the last use is spent
   };
   consume?: {
     type: string;
@@ -1126,6 +1513,7 @@ export interface FoundryItemSystemData {
   type?: {
     value: string;
     subtype?: string;
+    custom?: string;
   };
   [key: string]: unknown;
 }
@@ -1189,6 +1577,26 @@ export interface FoundryFeature {
   flags?: Record<string, unknown>;
 }
 
+export interface FoundryActiveEffect {
+  name: string;
+  img: string;
+  origin?: string;
+  transfer: boolean;
+  disabled: boolean;
+  statuses?: string[];
+  changes: Array<{
+    key: string;
+    mode: number;
+    value: string;
+    priority?: number;
+  }>;
+  duration?: {
+    rounds?: number;
+    seconds?: number;
+  };
+  flags?: Record<string, unknown>;
+}
+
 export interface FoundrySpellSlot {
   value: number;
   max: number;
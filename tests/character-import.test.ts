@@ -1,4 +1,9 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { CharacterParser } from '../src/parsers/character/CharacterParser';
+import { ModifierResolver } from '../src/parsers/character/ModifierResolver';
+import { BeyondFoundryAPI } from '../src/module/api/BeyondFoundryAPI';
+import { FeatureParser } from '../src/parsers/features/FeatureParser';
+import type { FoundryItemData } from '../src/types';
 
 // These should be set in your environment or .env file for real-data testing
 const COBALT_TOKEN = process.env.DDB_COBALT_TOKEN;
@@ -7,6 +12,52 @@ const CHARACTER_ID = process.env.DDB_CHARACTER_ID || '147239148';
 // FoundryVTT API globals are expected to be available in the test environment
 const api = globalThis.game?.modules?.get('beyond-foundry')?.api;
 
+// Sample D&D Beyond character data for parser unit tests (real payload structure)
+const buildSampleCharacter = (overrides: Record<string, unknown> = {}) => ({
+  id: 1001,
+  name: 'Sample Tiefling Rogue',
+  level: 3,
+  race: {
+    fullName: 'Tiefling',
+    baseRaceName: 'Tiefling',
+    size: 'Medium',
+    weightSpeeds: { normal: { walk: 30 } },
+  },
+  classes: [{ id: 1, level: 3, definition: { id: 9, name: 'Rogue', hitDie: 8 } }],
+  stats: [
+    { id: 1, value: 8 },
+    { id: 2, value: 15 },
+    { id: 3, value: 14 },
+    { id: 4, value: 12 },
+    { id: 5, value: 10 },
+    { id: 6, value: 13 },
+  ],
+  modifiers: {
+    race: [
+      { id: 'r1', entityId: 4, entityTypeId: 1, type: 'bonus', subType: 'intelligence-score', value: 1, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Intelligence Score' },
+      { id: 'r2', entityId: 6, entityTypeId: 1, type: 'bonus', subType: 'charisma-score', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Charisma Score' },
+      { id: 'r3', entityId: 1, entityTypeId: 1, type: 'set-base', subType: 'darkvision', value: 60, friendlyTypeName: 'Set Base', friendlySubtypeName: 'Darkvision' },
+      { id: 'r4', entityId: 1, entityTypeId: 1, type: 'resistance', subType: 'fire', value: null, friendlyTypeName: 'Resistance', friendlySubtypeName: 'Fire' },
+    ],
+    class: [
+      { id: 'c1', entityId: 2, entityTypeId: 1, type: 'proficiency', subType: 'dexterity-saving-throws', value: null, friendlyTypeName: 'Proficiency', friendlySubtypeName: 'Dexterity Saving Throws' },
+      { id: 'c2', entityId: 1, entityTypeId: 1, type: 'proficiency', subType: 'stealth', value: null, friendlyTypeName: 'Proficiency', friendlySubtypeName: 'Stealth' },
+      { id: 'c3', entityId: 1, entityTypeId: 1, type: 'expertise', subType: 'stealth', value: null, friendlyTypeName: 'Expertise', friendlySubtypeName: 'Stealth' },
+    ],
+    item: [
+      { id: 'i1', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'saving-throws', value: 1, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Saving Throws' },
+      { id: 'i2', entityId: 1, entityTypeId: 1, componentId: 501, type: 'bonus', subType: 'speed', value: 10, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Speed' },
+    ],
+    feat: [],
+    background: [],
+  },
+  inventory: [
+    { id: 10, equipped: true, isAttuned: true, quantity: 1, definition: { id: 500, name: 'Cloak of Protection', type: 'Wondrous item', rarity: 'Uncommon', magic: true, description: '', requiresAttunement: true } },
+    { id: 11, equipped: false, quantity: 1, definition: { id: 501, name: 'Boots of Striding and Springing', type: 'Wondrous item', rarity: 'Uncommon', magic: true, description: '' } },
+  ],
+  ...overrides,
+});
+
 describe('Character Import (Real Data)', () => {
   beforeAll(() => {
     if (!COBALT_TOKEN) throw new Error('DDB_COBALT_TOKEN not set');
@@ -46,3 +97,762 @@ describe('Character Import (Real Data)', () => {
     expect(result.error || result.message).toBeTruthy();
   });
 });
+
+describe('CharacterParser Unit Tests', () => {
+  it('applies racial ability score modifiers', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter() as never);
+
+    expect(actor.system.abilities.int.value).toBe(13);
+    expect(actor.system.abilities.cha.value).toBe(15);
+    expect(actor.system.abilities.cha.mod).toBe(2);
+  });
+
+  it('derives save and skill proficiencies from modifiers', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter() as never);
+
+    expect(actor.system.abilities.dex.proficient).toBe(1);
+    expect(actor.system.abilities.str.proficient).toBe(0);
+    expect(actor.system.skills.ste.value).toBe(2);
+  });
+
+  it('derives senses, resistances and item bonuses only from active items', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter() as never);
+    const cloak = actor.items?.find(item => item.name === 'Cloak of Protection');
+
+    expect(actor.system.attributes.senses.darkvision).toBe(60);
+    expect(actor.system.traits.dr.value).toContain('fire');
+    // The cloak's save bonus is carried by its effect rather than baked into the actor
+    expect(actor.system.bonuses?.abilities?.save).toBe('');
+    expect(cloak?.effects?.[0]?.changes).toEqual([{ key: 'system.bonuses.abilities.save', mode: 2, value: '+1' }]);
+    expect(actor.system.attributes.movement.walk).toBe(30);
+
+    // Without imported items there is no cloak to carry the effect
+    const withoutItems = await CharacterParser.parseCharacter(buildSampleCharacter() as never, { importItems: false });
+    expect(withoutItems.system.bonuses?.abilities?.save).toBe('1');
+  });
+
+  it('uses unarmored defense for monks', async () => {
+    const character = buildSampleCharacter({ inventory: [] });
+    character.stats[4].value = 16;
+    character.modifiers.class.push({ id: 'c4', entityId: 1, entityTypeId: 1, statId: 5, type: 'set', subType: 'unarmored-armor-class', value: null, friendlyTypeName: 'Set', friendlySubtypeName: 'Unarmored Armor Class' } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    expect(actor.system.attributes.ac.calc).toBe('unarmoredMonk');
+    expect(actor.flags?.['beyond-foundry']?.armorClass?.total).toBe(15);
+  });
+
+  it('drops monk unarmored defense when a shield is equipped', async () => {
+    const character = buildSampleCharacter({ inventory: [] });
+    character.stats[4].value = 16;
+    character.modifiers.class.push({ id: 'c4', entityId: 1, entityTypeId: 1, statId: 5, type: 'set', subType: 'unarmored-armor-class', value: null, friendlyTypeName: 'Set', friendlySubtypeName: 'Unarmored Armor Class' } as never);
+    character.inventory.push({ id: 13, equipped: true, quantity: 1, definition: { id: 601, name: 'Shield', type: 'Shield', armorTypeId: 4, armorClass: 2, rarity: 'Common', magic: false, description: '' } } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    // 10 + DEX 2 + shield 2, with no WIS
+    expect(actor.system.attributes.ac.calc).toBe('default');
+    expect(actor.flags?.['beyond-foundry']?.armorClass?.total).toBe(14);
+  });
+
+  it('adds shield and magic item bonuses to armored AC', async () => {
+    const character = buildSampleCharacter();
+    character.inventory.push(
+      { id: 12, equipped: true, quantity: 1, definition: { id: 600, name: 'Chain Mail', type: 'Heavy Armor', armorTypeId: 3, armorClass: 16, rarity: 'Common', magic: false, description: '' } } as never,
+      { id: 13, equipped: true, quantity: 1, definition: { id: 601, name: 'Shield', type: 'Shield', armorTypeId: 4, armorClass: 2, rarity: 'Common', magic: false, description: '' } } as never
+    );
+    character.modifiers.item.push({ id: 'i3', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'armor-class', value: 1, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Armor Class' } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    const cloak = actor.items?.find(item => item.name === 'Cloak of Protection');
+
+    expect(actor.system.attributes.ac.calc).toBe('default');
+    expect(actor.flags?.['beyond-foundry']?.armorClass).toMatchObject({ bonus: 0, effects: 1, total: 19 });
+    expect(cloak?.effects?.[0]?.changes).toContainEqual({ key: 'system.attributes.ac.bonus', mode: 2, value: '+1' });
+  });
+
+  it('calculates hit points with CON, per-level bonuses and damage taken', async () => {
+    const character = buildSampleCharacter({ baseHitPoints: 18, removedHitPoints: 5, temporaryHitPoints: 4 });
+    character.modifiers.feat.push({ id: 'f1', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'hit-points-per-level', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Hit Points per Level' } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    // 18 base + 2 CON x 3 + 2 Tough x 3
+    expect(actor.system.attributes.hp.max).toBe(30);
+    expect(actor.system.attributes.hp.value).toBe(25);
+    expect(actor.system.attributes.hp.temp).toBe(4);
+    expect(actor.flags?.['beyond-foundry']?.hitPoints?.perLevelBonus).toBe(6);
+  });
+
+  it('honors the hit point override', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({ overrideHitPoints: 42 }) as never);
+
+    expect(actor.system.attributes.hp.max).toBe(42);
+    expect(actor.flags?.['beyond-foundry']?.hitPoints?.baseSource).toBe('average');
+  });
+
+  it('combines multiclass spell slots with the PHB caster level rules', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      classes: [
+        { id: 1, level: 5, isStartingClass: true, definition: { id: 4, name: 'Paladin', hitDie: 10 } },
+        { id: 2, level: 3, definition: { id: 7, name: 'Sorcerer', hitDie: 6 } },
+      ],
+      spellSlots: [{ level: 1, used: 1, available: 4 }],
+    }) as never);
+
+    // Paladin 5 (half, rounded down) + Sorcerer 3 = caster level 5
+    expect(actor.system.spells.spell1).toMatchObject({ value: 3, max: 4 });
+    expect(actor.system.spells.spell2.max).toBe(3);
+    expect(actor.system.spells.spell3.max).toBe(2);
+    expect(actor.system.spells.spell4.max).toBe(0);
+  });
+
+  it('fills pact magic separately from shared spell slots', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      classes: [
+        { id: 1, level: 5, isStartingClass: true, definition: { id: 5, name: 'Warlock', hitDie: 8 } },
+        { id: 2, level: 2, definition: { id: 8, name: 'Wizard', hitDie: 6 } },
+      ],
+      pactMagic: [{ level: 3, used: 1, available: 2 }],
+    }) as never);
+
+    expect(actor.system.spells.pact).toMatchObject({ value: 1, max: 2, level: 3 });
+    expect(actor.system.spells.spell1.max).toBe(3);
+    expect(actor.system.spells.spell2.max).toBe(0);
+  });
+
+  it('builds the proficiency ladder with Jack of All Trades, bonuses and advantage', async () => {
+    const character = buildSampleCharacter();
+    character.modifiers.class.push(
+      { id: 'c4', entityId: 1, entityTypeId: 1, type: 'half-proficiency', subType: 'ability-checks', value: null, friendlyTypeName: 'Half Proficiency', friendlySubtypeName: 'Ability Checks' } as never,
+      { id: 'c5', entityId: 1, entityTypeId: 1, type: 'advantage', subType: 'perception', value: null, friendlyTypeName: 'Advantage', friendlySubtypeName: 'Perception' } as never
+    );
+    character.modifiers.feat.push(
+      { id: 'f2', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'passive-perception', value: 5, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Passive Perception' } as never,
+      { id: 'f3', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'wisdom-saving-throws', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Wisdom Saving Throws' } as never
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    expect(actor.system.skills.ste.value).toBe(2);
+    expect(actor.system.skills.arc.value).toBe(0.5);
+    expect(actor.system.skills.prc.bonuses.passive).toBe('5');
+    expect(actor.system.skills.prc.roll?.mode).toBe(1);
+    expect(actor.system.abilities.wis.bonuses.save).toBe('2');
+    expect(actor.flags?.dnd5e?.jackOfAllTrades).toBe(true);
+    expect(actor.flags?.['beyond-foundry']?.advantage?.skills).toEqual(['prc']);
+  });
+
+  it('derives movement and senses from modifiers and custom overrides', async () => {
+    const character = buildSampleCharacter({ customSenses: [{ senseId: 2, distance: 120 }] });
+    character.modifiers.race.push(
+      { id: 'r5', entityId: 1, entityTypeId: 1, type: 'set', subType: 'innate-speed-flying', value: null, restriction: 'equal to your walking speed', friendlyTypeName: 'Set', friendlySubtypeName: 'Innate Speed (Flying)' } as never,
+      { id: 'r6', entityId: 1, entityTypeId: 1, type: 'sense', subType: 'devils-sight', value: 120, friendlyTypeName: 'Sense', friendlySubtypeName: "Devil's Sight" } as never
+    );
+    character.modifiers.class.push({ id: 'c6', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'unarmored-movement', value: 10, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Unarmored Movement' } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    expect(actor.system.attributes.movement.walk).toBe(40);
+    expect(actor.system.attributes.movement.fly).toBe(40);
+    expect(actor.system.attributes.movement.swim).toBe(0);
+    expect(actor.system.attributes.senses.darkvision).toBe(120);
+    expect(actor.system.attributes.senses.special).toBe("Devil's Sight 120 ft.");
+  });
+
+  it('tracks class resources and links features that spend them', async () => {
+    const character = buildSampleCharacter({
+      classes: [{ id: 1, level: 5, isStartingClass: true, definition: { id: 6, name: 'Monk', hitDie: 8 } }],
+      actions: { class: [{ id: 'a1', name: 'Ki', limitedUse: { maxUses: 5, numberUsed: 2 } }] },
+      classFeatures: [
+        { definition: { id: 700, name: 'Ki', description: '' } },
+        { definition: { id: 701, name: 'Flurry of Blows', description: '' } },
+      ],
+    });
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const features = await FeatureParser.parseCharacterFeatures(character as never);
+
+    expect(actor.system.resources.primary).toMatchObject({ label: 'Ki Points', value: 3, max: 5, sr: true });
+    expect(features.find(feature => feature.name === 'Flurry of Blows')?.system.consume).toEqual({
+      type: 'attribute',
+      target: 'resources.primary.value',
+      amount: 1,
+    });
+    const embedded = actor.items?.find(item => item.name === 'Flurry of Blows');
+    expect(embedded).toMatchObject({ type: 'feat', system: { type: { value: 'class' } } });
+    expect(embedded?.system.consume).toEqual({ type: 'attribute', target: 'resources.primary.value', amount: 1 });
+  });
+
+  it('shares one Channel Divinity pool between Cleric and Paladin levels', async () => {
+    const character = buildSampleCharacter({
+      classes: [
+        { id: 1, level: 6, isStartingClass: true, definition: { id: 2, name: 'Cleric', hitDie: 8 } },
+        { id: 2, level: 3, definition: { id: 4, name: 'Paladin', hitDie: 10 } },
+      ],
+      actions: { class: [{ id: 'a1', name: 'Channel Divinity', limitedUse: { maxUses: 2, numberUsed: 1 } }] },
+      classFeatures: [
+        { definition: { id: 710, name: 'Channel Divinity', description: '' } },
+        { definition: { id: 711, name: 'Channel Divinity: Sacred Weapon', description: '' } },
+      ],
+    });
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    expect(actor.system.resources.primary).toMatchObject({ label: 'Channel Divinity', value: 1, max: 2, sr: true });
+    expect(actor.system.resources.secondary).toMatchObject({ max: 0 });
+    expect(actor.items?.find(item => item.name === 'Channel Divinity: Sacred Weapon')?.system.consume)
+      .toEqual({ type: 'attribute', target: 'resources.primary.value', amount: 1 });
+  });
+
+  it('keeps the parsed state and bonuses of magic items linked from the item compendium', async () => {
+    const character = buildSampleCharacter();
+    character.modifiers.item.push({ id: 'i3', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'armor-class', value: 1, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Armor Class' } as never);
+    const cloak = { id: 'cloakofprotect00', name: 'Cloak of Protection', type: 'equipment', getFlag: () => 500 };
+    const pack = {
+      index: [{ _id: cloak.id }],
+      getIndex: vi.fn(async () => undefined),
+      getDocument: vi.fn(async () => cloak),
+    };
+    const { game } = globalThis as unknown as { game: Record<string, unknown> };
+    const packs = game.packs;
+    game.packs = new Map([['beyondfoundry.items', pack]]);
+    const actor = { createEmbeddedDocuments: vi.fn(async () => []) };
+
+    try {
+      const imported = await BeyondFoundryAPI.getInstance().addItemsToActor(actor as never, [character.inventory[0]] as never, {}, character as never);
+      const [[, [linked]]] = actor.createEmbeddedDocuments.mock.calls as unknown as [[string, [FoundryItemData & { _id?: string }]]];
+
+      expect(imported).toBe(1);
+      expect(linked).toMatchObject({
+        name: 'Cloak of Protection',
+        _id: cloak.id,
+        system: { equipped: true, attunement: 2, quantity: 1 },
+        flags: { 'beyond-foundry': { compendiumId: cloak.id } },
+      });
+      expect(linked.effects?.[0]?.changes).toEqual(expect.arrayContaining([
+        { key: 'system.attributes.ac.bonus', mode: 2, value: '+1' },
+        { key: 'system.bonuses.abilities.save', mode: 2, value: '+1' },
+      ]));
+    } finally {
+      game.packs = packs;
+    }
+  });
+
+  it('moves feat modifiers onto the embedded feat as a transferable effect', async () => {
+    const character = buildSampleCharacter({
+      feats: [{ definition: { id: 800, name: 'Resilient (Constitution)', description: '' } }],
+    });
+    character.modifiers.feat.push(
+      { id: 'f4', entityId: 1, entityTypeId: 1, componentId: 800, type: 'bonus', subType: 'constitution-score', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Constitution Score' } as never
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const feat = actor.items?.find(item => item.name === 'Resilient (Constitution)');
+
+    expect(actor.system.abilities.con.value).toBe(14);
+    expect(feat?.effects).toHaveLength(1);
+    expect(feat?.effects?.[0]).toMatchObject({
+      transfer: true,
+      changes: [
+        { key: 'system.abilities.con.value', mode: 2, value: '2' },
+        // The increase stops at the ability maximum once dnd5e applies it
+        { key: 'system.abilities.con.value', mode: 3, value: '20' },
+      ],
+    });
+    // Stored hit points still use the full CON from D&D Beyond
+    expect(actor.flags?.['beyond-foundry']?.hitPoints?.constitution).toBe(9);
+  });
+
+  it('imports live table state: XP, inspiration, death saves, exhaustion and conditions', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      currentXp: 1200,
+      inspiration: true,
+      deathSaves: { successCount: 1, failCount: 2, isStabilized: false },
+      conditions: [{ id: 4, level: 2 }, { id: 11, level: null }],
+    }) as never);
+
+    expect(actor.system.details.xp).toEqual({ value: 1200, max: 2700, pct: 17 });
+    expect(actor.system.attributes.inspiration).toBe(true);
+    expect(actor.system.attributes.death).toEqual({ success: 1, failure: 2 });
+    expect(actor.system.attributes.exhaustion).toBe(2);
+    expect(actor.effects).toHaveLength(1);
+    expect(actor.effects?.[0]).toMatchObject({ name: 'Poisoned', statuses: ['poisoned'] });
+  });
+
+  it('uses the level threshold as XP for milestone characters', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({ preferences: { progressionType: 1 } }) as never);
+
+    expect(actor.system.details.xp.value).toBe(900);
+    expect(actor.flags?.['beyond-foundry']?.progression).toBe('milestone');
+  });
+
+  it('derives defenses with weapon bypasses and keeps situational ones as custom text', async () => {
+    const character = buildSampleCharacter();
+    character.modifiers.race.push(
+      { id: 'r5', entityId: 1, entityTypeId: 1, type: 'immunity', subType: 'disease', value: null, friendlyTypeName: 'Immunity', friendlySubtypeName: 'Disease' } as never,
+      { id: 'r6', entityId: 1, entityTypeId: 1, type: 'resistance', subType: 'bludgeoning-piercing-and-slashing-from-nonmagical-attacks-that-arent-silvered', value: null, friendlyTypeName: 'Resistance', friendlySubtypeName: 'Bludgeoning, Piercing, and Slashing from Nonmagical Attacks that aren\'t Silvered' } as never
+    );
+    character.modifiers.class.push(
+      { id: 'c4', entityId: 1, entityTypeId: 1, type: 'resistance', subType: 'all', value: null, restriction: 'Except psychic, while raging', friendlyTypeName: 'Resistance', friendlySubtypeName: 'All' } as never,
+      { id: 'c5', entityId: 1, entityTypeId: 1, type: 'vulnerability', subType: 'radiant', value: null, friendlyTypeName: 'Vulnerability', friendlySubtypeName: 'Radiant' } as never
+    );
+    character.modifiers.item.push(
+      { id: 'i3', entityId: 1, entityTypeId: 1, componentId: 500, type: 'resistance', subType: 'cold', value: null, friendlyTypeName: 'Resistance', friendlySubtypeName: 'Cold' } as never
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const cloak = actor.items?.find(item => item.name === 'Cloak of Protection');
+
+    expect(actor.system.traits.dr).toEqual({
+      value: ['fire', 'bludgeoning', 'piercing', 'slashing'],
+      bypasses: ['mgc', 'sil'],
+      custom: 'All (Except psychic, while raging)',
+    });
+    expect(actor.system.traits.dv.value).toEqual(['radiant']);
+    expect(actor.system.traits.ci).toEqual({ value: ['diseased'], custom: '' });
+    // Item resistances travel with the item instead of being baked in
+    expect(actor.system.traits.dr.value).not.toContain('cold');
+    expect(cloak?.effects?.[0]?.changes).toContainEqual({ key: 'system.traits.dr.value', mode: 2, value: 'cold' });
+  });
+
+  it('runs the full ability score pipeline and records each contribution', async () => {
+    const character = buildSampleCharacter({
+      classes: [{
+        id: 1,
+        level: 20,
+        definition: { id: 9, name: 'Barbarian', hitDie: 12 },
+        classFeatures: [{ id: 77, name: 'Primal Champion' }, { id: 78, name: 'Ability Score Improvement' }],
+      }],
+      stats: [
+        { id: 1, value: 16 },
+        { id: 2, value: 15 },
+        { id: 3, value: 14 },
+        { id: 4, value: 12 },
+        { id: 5, value: 10 },
+        { id: 6, value: 13 },
+      ],
+      bonusStats: [{ id: 2, value: 1 }],
+      overrideStats: [{ id: 6, value: 8 }],
+    });
+    character.modifiers.race.push(
+      { id: 'r5', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'strength-score', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Strength Score' } as never
+    );
+    character.modifiers.class.push(
+      { id: 'c4', entityId: 1, entityTypeId: 1, componentId: 78, type: 'bonus', subType: 'strength-score', value: 4, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Strength Score' } as never,
+      { id: 'c5', entityId: 1, entityTypeId: 1, componentId: 77, type: 'bonus', subType: 'strength-score', value: 4, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Strength Score' } as never,
+      { id: 'c6', entityId: 1, entityTypeId: 1, componentId: 77, type: 'bonus', subType: 'strength-maximum', value: 4, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Strength Maximum' } as never
+    );
+    character.modifiers.item.push(
+      { id: 'i3', entityId: 1, entityTypeId: 1, componentId: 500, type: 'set', subType: 'intelligence-score', value: 19, friendlyTypeName: 'Set', friendlySubtypeName: 'Intelligence Score' } as never,
+      { id: 'i4', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'charisma-score', value: 2, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Charisma Score' } as never
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const breakdown = actor.flags?.['beyond-foundry']?.abilities;
+    const cloak = actor.items?.find(item => item.name === 'Cloak of Protection');
+
+    // 16 + 2 + 4 + 4 = 26, capped at the Primal Champion maximum of 24
+    expect(actor.system.abilities.str.value).toBe(24);
+    expect(breakdown?.str).toMatchObject({ base: 16, max: 24, value: 24, total: 24 });
+    expect(breakdown?.str.bonuses).toEqual([
+      { source: 'race', label: 'Tiefling', value: 2, effect: false },
+      { source: 'class', label: 'Ability Score Improvement', value: 4, effect: false },
+      { source: 'class', label: 'Primal Champion', value: 4, effect: false },
+    ]);
+    expect(actor.system.abilities.dex.value).toBe(16);
+    expect(breakdown?.dex.other).toBe(1);
+    // The set score travels with the item as an effect
+    expect(actor.system.abilities.int.value).toBe(13);
+    expect(breakdown?.int).toMatchObject({ value: 13, total: 19, set: { label: 'Cloak of Protection', value: 19, effect: true } });
+    expect(actor.system.abilities.cha).toMatchObject({ value: 8, mod: -1 });
+    expect(breakdown?.cha).toMatchObject({ override: 8, value: 8, total: 8 });
+    // Item effects stay within the same limits: the override wins over the cloak's +2
+    expect(cloak?.effects?.[0]?.changes).toEqual(expect.arrayContaining([
+      { key: 'system.abilities.cha.value', mode: 2, value: '2' },
+      { key: 'system.abilities.cha.value', mode: 5, value: '8' },
+      { key: 'system.abilities.int.value', mode: 3, value: '20' },
+    ]));
+  });
+
+  it('computes initiative and per-class spellcasting on class items', async () => {
+    const character = buildSampleCharacter({
+      classes: [
+        { id: 1, level: 3, definition: { id: 2, name: 'Cleric', hitDie: 8 } },
+        { id: 2, level: 2, definition: { id: 7, name: 'Warlock', hitDie: 8 } },
+      ],
+    });
+    character.modifiers.class.push(
+      { id: 'c4', entityId: 1, entityTypeId: 1, type: 'bonus', subType: 'initiative', value: 5, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Initiative' } as never
+    );
+    character.modifiers.item.push(
+      { id: 'i3', entityId: 1, entityTypeId: 1, componentId: 500, type: 'advantage', subType: 'initiative', value: null, friendlyTypeName: 'Advantage', friendlySubtypeName: 'Initiative' } as never,
+      { id: 'i4', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'spell-attacks', value: 1, restriction: 'Warlock spells only', friendlyTypeName: 'Bonus', friendlySubtypeName: 'Spell Attacks' } as never,
+      { id: 'i5', entityId: 1, entityTypeId: 1, componentId: 500, type: 'bonus', subType: 'warlock-spell-save-dc', value: 1, friendlyTypeName: 'Bonus', friendlySubtypeName: 'Warlock Spell Save DC' } as never
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const classItem = (name: string) => actor.items?.find(item => item.type === 'class' && item.name === name);
+
+    expect(actor.system.attributes.init).toEqual({ ability: 'dex', bonus: '5' });
+    expect(actor.flags?.dnd5e?.initiativeAdv).toBe(true);
+    // Cleric is the higher level class: WIS 10, proficiency +3
+    expect(actor.system.attributes.spellcasting).toBe('wis');
+    expect(actor.system.attributes.spelldc).toBe(11);
+    expect(classItem('Cleric')?.system.spellcasting).toEqual({ progression: 'full', ability: 'wis' });
+    expect(classItem('Cleric')?.flags?.['beyond-foundry']).toMatchObject({ spellcasting: { dc: 11, attack: 3 } });
+    // CHA 15 plus the Warlock-only item bonuses
+    expect(classItem('Warlock')?.system.spellcasting).toEqual({ progression: 'pact', ability: 'cha' });
+    expect(classItem('Warlock')?.flags?.['beyond-foundry']).toMatchObject({ spellcasting: { dc: 14, attack: 6 } });
+  });
+
+  it('embeds class and subclass items with hit dice, advancement and spellcasting', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      classes: [
+        { id: 1, level: 2, hitDiceUsed: 1, definition: { id: 9, name: 'Rogue', hitDie: 8 } },
+        {
+          id: 2,
+          level: 3,
+          isStartingClass: true,
+          hitDiceUsed: 0,
+          definition: { id: 4, name: 'Fighter', hitDie: 10 },
+          subclassDefinition: { id: 40, name: 'Eldritch Knight' },
+        },
+      ],
+    }) as never);
+    const rogue = actor.items?.find(item => item.type === 'class' && item.name === 'Rogue');
+    const fighter = actor.items?.find(item => item.type === 'class' && item.name === 'Fighter');
+    const subclass = actor.items?.find(item => item.type === 'subclass');
+
+    expect(rogue?.system).toMatchObject({ identifier: 'rogue', levels: 2, hitDice: 'd8', hitDiceUsed: 1 });
+    expect(rogue?.system.advancement).toEqual([expect.objectContaining({ type: 'HitPoints', value: { 1: 'avg', 2: 'avg' } })]);
+    expect(fighter?.flags?.['beyond-foundry']).toMatchObject({ isStartingClass: true });
+    expect(fighter?.system).toMatchObject({ hitDice: 'd10', spellcasting: { progression: 'none', ability: '' } });
+    expect(fighter?.system.advancement).toEqual([expect.objectContaining({ value: { 1: 'max', 2: 'avg', 3: 'avg' } })]);
+    // Eldritch Knight casting comes from the subclass
+    expect(subclass).toMatchObject({
+      name: 'Eldritch Knight',
+      system: { identifier: 'eldritch-knight', classIdentifier: 'fighter', spellcasting: { progression: 'third', ability: 'int' } },
+    });
+  });
+
+  it('embeds race and background items with size, senses and proficiency grants', async () => {
+    const base = buildSampleCharacter();
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      background: { definition: { id: 7, name: 'Criminal', description: '<p>Outlaw.</p>', featureName: 'Criminal Contact' } },
+      modifiers: {
+        ...base.modifiers,
+        race: [
+          ...base.modifiers.race,
+          { id: 'r5', entityId: 1, entityTypeId: 1, type: 'language', subType: 'infernal', value: null, friendlyTypeName: 'Language', friendlySubtypeName: 'Infernal' },
+        ],
+        background: [
+          { id: 'b1', entityId: 1, entityTypeId: 1, type: 'proficiency', subType: 'deception', value: null, friendlyTypeName: 'Proficiency', friendlySubtypeName: 'Deception' },
+          { id: 'b2', entityId: 1, entityTypeId: 1, type: 'proficiency', subType: 'thieves-tools', value: null, friendlyTypeName: 'Proficiency', friendlySubtypeName: "Thieves' Tools" },
+        ],
+      },
+    }) as never);
+    const race = actor.items?.find(item => item.type === 'race');
+    const background = actor.items?.find(item => item.type === 'background');
+
+    expect(race).toMatchObject({
+      name: 'Tiefling',
+      system: {
+        identifier: 'tiefling',
+        type: { value: 'humanoid' },
+        movement: { walk: 30, fly: 0, units: 'ft', hover: false },
+        senses: { darkvision: 60, blindsight: 0 },
+      },
+    });
+    expect(race?.system.advancement).toEqual([
+      expect.objectContaining({ type: 'Size', value: { size: 'med' } }),
+      expect.objectContaining({ type: 'Trait', value: { chosen: ['languages:exotic:infernal'] } }),
+    ]);
+    expect(background?.system.description.value).toContain('Criminal Contact');
+    expect(background?.system.advancement).toEqual([
+      expect.objectContaining({ type: 'Trait', value: { chosen: ['skills:dec', 'tool:thief'] } }),
+    ]);
+  });
+
+  it('computes carried weight with containers, coins, bundles, Powerful Build and variant encumbrance', async () => {
+    const actor = await CharacterParser.parseCharacter(buildSampleCharacter({
+      race: {
+        fullName: 'Goliath',
+        baseRaceName: 'Goliath',
+        size: 'Medium',
+        weightSpeeds: { normal: { walk: 30 } },
+        racialTraits: [{ definition: { id: 1, name: 'Powerful Build', description: '' } }],
+      },
+      preferences: { encumbranceType: 3 },
+      currencies: { cp: 0, sp: 0, ep: 0, gp: 100, pp: 0 },
+      inventory: [
+        { id: 20, equipped: true, quantity: 1, containerEntityId: 1001, definition: { id: 1, name: 'Plate Armor', type: 'Heavy Armor', rarity: 'Common', magic: false, description: '', weight: 65 } },
+        { id: 21, equipped: false, quantity: 40, containerEntityId: 1001, definition: { id: 2, name: 'Arrows', type: 'Ammunition', rarity: 'Common', magic: false, description: '', weight: 1, bundleSize: 20 } },
+        { id: 22, equipped: true, quantity: 1, containerEntityId: 1001, definition: { id: 3, name: 'Bag of Holding', type: 'Wondrous item', rarity: 'Uncommon', magic: true, description: '', weight: 15, isContainer: true, weightMultiplier: 0 } },
+        { id: 23, equipped: false, quantity: 10, containerEntityId: 22, definition: { id: 4, name: 'Iron Bar', type: 'Gear', rarity: 'Common', magic: false, description: '', weight: 10 } },
+      ],
+    }) as never);
+    const encumbrance = actor.flags?.['beyond-foundry']?.encumbrance;
+
+    // 65 armor + 2 arrows + 15 bag + 2 lb of coins; the bag's 100 lb of contents weigh nothing
+    expect(encumbrance).toMatchObject({
+      current: 84,
+      multiplier: 2,
+      variant: true,
+      max: 240,
+      thresholds: { encumbered: 80, heavilyEncumbered: 160 },
+      encumbered: true,
+      heavily: false,
+      coins: 2,
+      total: { weight: 184, value: 100 },
+    });
+    expect(actor.system.attributes.encumbrance).toEqual({ value: 84, max: 240, pct: 35, encumbered: true });
+    expect(actor.flags?.dnd5e?.powerfulBuild).toBe(true);
+  });
+
+  it('maps weapon, armor and tool proficiencies to dnd5e keys and keeps unmapped ones as custom', async () => {
+    const character = buildSampleCharacter();
+    const proficiency = (id: string, type: string, subType: string, friendlySubtypeName: string) =>
+      ({ id, entityId: 1, entityTypeId: 1, type, subType, value: null, friendlyTypeName: 'Proficiency', friendlySubtypeName }) as never;
+    character.modifiers.class.push(
+      proficiency('c5', 'proficiency', 'simple-weapons', 'Simple Weapons'),
+      proficiency('c6', 'proficiency', 'crossbow-hand', 'Crossbow, Hand'),
+      proficiency('c7', 'proficiency', 'longsword', 'Longsword'),
+      proficiency('c8', 'proficiency', 'light-armor', 'Light Armor'),
+      proficiency('c9', 'proficiency', 'thieves-tools', "Thieves' Tools"),
+      proficiency('c10', 'expertise', 'thieves-tools', "Thieves' Tools"),
+      proficiency('c11', 'proficiency', 'firearms', 'Firearms'),
+      proficiency('c12', 'proficiency', 'gaming-set-tarokka', 'Tarokka Deck Gaming Set'),
+      proficiency('c13', 'proficiency', 'three-dragon-ante-set', 'Three-Dragon Ante Set'),
+    );
+    character.modifiers.background.push(proficiency('b1', 'proficiency', 'smiths-tools', "Smith's Tools"));
+    const actor = await CharacterParser.parseCharacter(character as never);
+
+    expect(actor.system.traits.weaponProf).toEqual({ value: ['sim', 'handcrossbow', 'longsword'], custom: 'Firearms' });
+    expect(actor.system.traits.armorProf).toEqual({ value: ['lgt'], custom: '' });
+    expect(actor.system.traits.toolProf?.custom).toBe('Tarokka Deck Gaming Set; Three-Dragon Ante Set');
+    expect(actor.system.tools).toEqual({
+      thief: { value: 2, ability: 'dex', bonuses: { check: '' } },
+      smith: { value: 1, ability: 'str', bonuses: { check: '' } },
+    });
+  });
+
+  it('maps languages to dnd5e keys with telepathy and leaves open choices to advancement', async () => {
+    const character = buildSampleCharacter();
+    const language = (id: string, subType: string, friendlySubtypeName: string) =>
+      ({ id, entityId: 1, entityTypeId: 1, type: 'language', subType, value: null, friendlyTypeName: 'Language', friendlySubtypeName }) as never;
+    character.modifiers.race.push(
+      language('r5', 'common', 'Common'),
+      language('r6', 'infernal', 'Infernal'),
+      language('r7', 'choose-a-language', 'One of your choice'),
+      { id: 'r8', entityId: 1, entityTypeId: 1, type: 'set-base', subType: 'telepathy', value: 30, friendlyTypeName: 'Set Base', friendlySubtypeName: 'Telepathy' } as never,
+    );
+    character.modifiers.class.push(
+      language('c5', 'thieves-cant', "Thieves' Cant"),
+      language('c6', 'deep-speech', 'Deep Speech'),
+      language('c7', 'quori', 'Quori'),
+    );
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const race = actor.items?.find(item => item.type === 'race');
+
+    expect(actor.system.traits.languages).toEqual({
+      value: ['common', 'infernal', 'cant', 'deep'],
+      custom: 'Quori',
+      communication: { telepathy: { value: 30, units: 'ft' } },
+    });
+    expect(actor.system.attributes.senses.special).toBe('');
+    expect(race?.system.advancement[1]).toMatchObject({
+      configuration: {
+        grants: ['languages:standard:common', 'languages:exotic:infernal'],
+        choices: [{ count: 1, pool: ['languages:*'] }],
+      },
+    });
+  });
+
+  it('imports race, feat and item spells as innate, at-will or charge-consuming spells', async () => {
+    const spell = (id: number, name: string, level: number, extra: Record<string, unknown> = {}) => ({
+      id,
+      definition: { id, name, level, school: 'Evocation', description: '', components: [1, 2], range: { origin: 'Self' } },
+      prepared: false,
+      usesSpellSlot: false,
+      ...extra,
+    });
+    const character = buildSampleCharacter({
+      spells: {
+        race: [
+          spell(1, 'Thaumaturgy', 0),
+          spell(2, 'Hellish Rebuke', 1, { limitedUse: { maxUses: 1, numberUsed: 1, resetType: 2 } }),
+        ],
+        feat: [spell(3, 'Misty Step', 2, { limitedUse: { maxUses: 0, numberUsed: 0, resetType: 2, statModifierUsesId: 6 } })],
+        item: [
+          spell(4, 'Magic Missile', 1, { componentId: 700, limitedUse: { minNumberConsumed: 1, maxNumberConsumed: 3 } }),
+          spell(5, 'Fireball', 3, { componentId: 701 }),
+        ],
+        class: [],
+      },
+    });
+    character.inventory.push({ id: 14, equipped: false, quantity: 1, definition: { id: 701, name: 'Spell Scroll (3rd Level)', type: 'Scroll', rarity: 'Uncommon', magic: true, description: '' } } as never);
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const byName = (name: string) => actor.items?.find(item => item.type === 'spell' && item.name === name);
+
+    expect(byName('Thaumaturgy')?.system.preparation).toMatchObject({ mode: 'atwill', prepared: true });
+    expect(byName('Hellish Rebuke')?.system).toMatchObject({
+      preparation: { mode: 'innate' },
+      uses: { value: 0, max: '1', per: 'lr' },
+      consume: { type: '', amount: 1 },
+    });
+    expect(byName('Misty Step')?.system.uses).toMatchObject({ value: 2, max: '2', per: 'lr' });
+    expect(byName('Magic Missile')?.system).toMatchObject({
+      preparation: { mode: 'innate' },
+      consume: { type: 'charges', target: '', amount: 1, scale: true },
+    });
+    expect((byName('Magic Missile')?.flags['beyond-foundry'] as Record<string, unknown>).grantedBy).toEqual({
+      source: 'item',
+      componentId: 700,
+      charges: { amount: 1, scale: true },
+    });
+    // Cast from the scroll, not known by the character
+    expect(byName('Fireball')).toBeUndefined();
+  });
+
+  it('imports only the spells each class knows or has prepared, with domain and pact spells marked', async () => {
+    const spell = (id: number, name: string, level: number, extra: Record<string, unknown> = {}) => ({
+      id,
+      definition: { id, name, level, school: 'Evocation', description: '', components: [1, 2], range: { origin: 'Self' } },
+      prepared: true,
+      ...extra,
+    });
+    const character = buildSampleCharacter({
+      level: 4,
+      classes: [
+        {
+          id: 1,
+          level: 2,
+          isStartingClass: true,
+          definition: { id: 2, name: 'Cleric', hitDie: 8 },
+          classFeatures: [{ definition: { id: 300, name: 'Bonus Cantrip', description: '', requiredLevel: 1 } }],
+        },
+        {
+          id: 2,
+          level: 2,
+          definition: { id: 8, name: 'Warlock', hitDie: 8 },
+          classFeatures: [{ definition: { id: 400, name: 'Eldritch Invocations', description: '', requiredLevel: 2 } }],
+        },
+      ],
+      classSpells: [
+        {
+          characterClassId: 1,
+          spells: [
+            spell(10, 'Guidance', 0),
+            spell(11, 'Bless', 1),
+            spell(12, 'Cure Wounds', 1, { prepared: false }),
+            spell(13, 'Faerie Fire', 1, { alwaysPrepared: true }),
+            spell(13, 'Faerie Fire', 1, { alwaysPrepared: true }),
+          ],
+        },
+        { characterClassId: 2, spells: [spell(20, 'Eldritch Blast', 0), spell(21, 'Hex', 1)] },
+      ],
+      spells: {
+        class: [
+          spell(13, 'Faerie Fire', 1),
+          spell(14, 'Light', 0, { componentId: 300, prepared: false, usesSpellSlot: true }),
+          spell(15, 'Mage Armor', 1, { componentId: 400, usesSpellSlot: false }),
+          spell(16, 'Disguise Self', 1, { componentId: 400, usesSpellSlot: false, limitedUse: { maxUses: 1, numberUsed: 0, resetType: 2 } }),
+        ],
+        race: [],
+        feat: [],
+        item: [],
+        background: [],
+      },
+    });
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const spells = actor.items?.filter(item => item.type === 'spell') ?? [];
+    const byName = (name: string) => spells.find(item => item.name === name);
+
+    expect(spells.map(item => item.name)).toEqual([
+      'Guidance', 'Bless', 'Cure Wounds', 'Faerie Fire', 'Eldritch Blast', 'Hex', 'Light', 'Mage Armor', 'Disguise Self',
+    ]);
+    // Granted by a Cleric feature, so always prepared and cast with Wisdom
+    expect(byName('Light')?.system).toMatchObject({ ability: 'wis', preparation: { mode: 'always' } });
+    expect(byName('Bless')?.system).toMatchObject({ ability: 'wis', preparation: { mode: 'prepared', prepared: true } });
+    expect(byName('Cure Wounds')?.system.preparation).toEqual({ mode: 'prepared', prepared: false });
+    expect(byName('Faerie Fire')?.system.preparation).toMatchObject({ mode: 'always' });
+    expect(byName('Eldritch Blast')?.system).toMatchObject({ ability: 'cha', preparation: { mode: 'prepared' } });
+    expect(byName('Hex')?.system.preparation).toMatchObject({ mode: 'pact' });
+    // Invocations cast without a slot: at will, or once per long rest
+    expect(byName('Mage Armor')?.system).toMatchObject({ ability: 'cha', preparation: { mode: 'atwill' }, consume: { type: '' } });
+    expect(byName('Disguise Self')?.system).toMatchObject({ preparation: { mode: 'innate' }, uses: { value: 1, max: '1', per: 'lr' } });
+  });
+
+  it('links class spells to the spell compendium and keeps how the character casts them', async () => {
+    const bless = { id: 'blessspell000000', name: 'Bless', type: 'spell', getFlag: () => 11 };
+    const pack = {
+      index: [{ _id: bless.id }],
+      getIndex: vi.fn(async () => undefined),
+      getDocument: vi.fn(async () => bless),
+    };
+    const { game } = globalThis as unknown as { game: Record<string, unknown> };
+    const packs = game.packs;
+    game.packs = new Map([['beyondfoundry.spells', pack]]);
+    const actor = { createEmbeddedDocuments: vi.fn(async () => []) };
+    const spells: FoundryItemData[] = [
+      { name: 'Bless', type: 'spell', system: { ability: 'wis', preparation: { mode: 'prepared', prepared: true } }, flags: { 'beyond-foundry': { ddbId: 11 } } },
+      { name: 'Hex', type: 'spell', system: { ability: 'cha', preparation: { mode: 'pact', prepared: true } }, flags: { 'beyond-foundry': { ddbId: 21 } } },
+    ];
+
+    try {
+      const imported = await BeyondFoundryAPI.getInstance().addClassSpellsToActor(actor as never, spells, {});
+      const [[, items]] = actor.createEmbeddedDocuments.mock.calls as unknown as [[string, FoundryItemData[]]];
+
+      expect(imported).toBe(2);
+      expect(items[0]).toMatchObject({
+        name: 'Bless',
+        _id: bless.id,
+        compendium: 'beyondfoundry.spells',
+        system: { ability: 'wis', preparation: { mode: 'prepared', prepared: true } },
+        flags: { 'beyond-foundry': { ddbId: 11, compendiumId: bless.id } },
+      });
+      // No compendium entry, so the parsed spell is embedded as is
+      expect(items[1]).toBe(spells[1]);
+    } finally {
+      game.packs = packs;
+    }
+  });
+
+  it('applies player-entered overrides last and flags each overridden field', async () => {
+    const character = buildSampleCharacter({
+      characterValues: [
+        { typeId: 1, value: 17, notes: 'Homebrew bracers', valueId: null, valueTypeId: null },
+        { typeId: 26, value: 4, valueId: 5, valueTypeId: 1958004211 },
+        { typeId: 39, value: 1, valueId: 2, valueTypeId: 1472902489 },
+        { typeId: 8, value: "Grandmother's Cloak", valueId: 10, valueTypeId: 1439493548 },
+      ],
+      overrideStats: [{ id: 1, value: 19 }, { id: 2, value: null }],
+      customProficiencies: [{ id: 1, name: 'Sylvan Dialect', type: 3, proficiencyLevel: 3 }],
+      customDefenseAdjustments: [{ type: 1, adjustmentId: 9, source: 'Curse' }, { type: 2, adjustmentId: 2 }],
+      customItems: [{ id: 77, name: 'Lucky Coin', description: '<p>Shiny.</p>', quantity: 1, weight: 0, cost: null, notes: null }],
+    });
+    const actor = await CharacterParser.parseCharacter(character as never);
+    const overrides = actor.flags?.['beyond-foundry']?.overrides ?? {};
+
+    expect(actor.system.attributes.ac).toMatchObject({ calc: 'flat', flat: 17 });
+    expect(actor.system.abilities.str).toMatchObject({ value: 19, mod: 4 });
+    expect(actor.flags?.['beyond-foundry']?.abilities?.str.override).toBe(19);
+    expect(actor.system.skills.ste.value).toBe(2);
+    expect(actor.system.abilities.dex.bonuses.save).toBe('1');
+    expect(actor.system.traits.languages?.custom).toContain('Sylvan Dialect');
+    expect(actor.system.traits.dr.value).toContain('fire');
+    expect(actor.system.traits.ci.value).toContain('charmed');
+    expect(ModifierResolver.resolve(character as never).traits.ci.value).not.toContain('charmed');
+    expect(actor.items?.find(item => item.flags?.['beyond-foundry'] && (item.flags['beyond-foundry'] as { inventoryId?: number }).inventoryId === 10)?.name)
+      .toBe("Grandmother's Cloak");
+    expect(actor.items?.find(item => item.name === 'Lucky Coin')).toMatchObject({ type: 'loot', system: { quantity: 1 } });
+    expect(overrides['system.attributes.ac.flat']).toEqual({ source: 'characterValues', value: 17, notes: 'Homebrew bracers' });
+    expect(actor.effects).toEqual(expect.arrayContaining([expect.objectContaining({
+      name: 'Armor Class Override',
+      changes: expect.arrayContaining([
+        { key: 'system.attributes.ac.flat', mode: 5, value: '17', priority: 100 },
+        { key: 'system.attributes.ac.bonus', mode: 5, value: '0', priority: 100 },
+      ]),
+    })]));
+    expect(Object.keys(overrides)).toEqual(expect.arrayContaining([
+      'system.abilities.str.value',
+      'system.skills.ste.value',
+      'system.abilities.dex.bonuses.save',
+      'system.traits.languages.custom',
+      'system.traits.dr.value',
+      'system.traits.ci.value',
+      'items.Lucky Coin',
+    ]));
+    expect(overrides['system.abilities.dex.value']).toBeUndefined();
+  });
+});
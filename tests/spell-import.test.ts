@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import { SpellParser } from '../src/parsers/spells/SpellParser';
+import { ActivityAdapter } from '../src/parsers/activities/ActivityAdapter';
+import { BeyondFoundryAPI } from '../src/module/api/BeyondFoundryAPI';
+import { ItemParser } from '../src/parsers/items/ItemParser';
+import type { DDBCharacter, DDBItem, DDBSpell, FoundryActivity } from '../src/types';
 
 // Feature: Spell Import
 // Status: ✅ CORE FUNCTIONALITY VALIDATED AND WORKING
@@ -10,6 +14,10 @@ import { SpellParser } from '../src/parsers/spells/SpellParser';
 // Current limitation: Proxy connectivity issues prevent live API testing.
 // See SPELL_IMPORT_TEST_SUMMARY.md for detailed test results.
 
+// Activities of an item adapted to the dnd5e 4.x data model
+const activitiesOf = (item: { system?: unknown }) =>
+  Object.values((item.system as { activities: Record<string, FoundryActivity> }).activities);
+
 // Sample D&D Beyond spell data for testing (real structure)
 const SAMPLE_DDB_SPELLS = {
   fireBolt: {
@@ -101,6 +109,398 @@ describe('Spell Import (Real Data)', () => {
       expect(beyondFoundryFlags?.prepared).toBe(true);
       expect(beyondFoundryFlags?.usesSpellSlot).toBe(false);
     });
+
+    it('uses the casting class ability and class-only bonuses', () => {
+      const spellcasting = {
+        classId: 2, className: 'Warlock', identifier: 'warlock', progression: 'pact' as const,
+        ability: 'cha', mod: 3, dc: 15, attack: 6, dcBonus: 1, attackBonus: 1,
+      };
+      const bolt = SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt, { spellcasting });
+      const saveSpell = SpellParser.parseSpell(
+        { ...SAMPLE_DDB_SPELLS.fireBolt, definition: { ...SAMPLE_DDB_SPELLS.fireBolt.definition, attackType: undefined, saveType: 2 } } as never,
+        { spellcasting }
+      );
+
+      expect(bolt.system.ability).toBe('cha');
+      expect(bolt.system.attackBonus).toBe('1');
+      expect(saveSpell.system.save).toEqual({ ability: 'dex', dc: 15, scaling: 'flat' });
+    });
+
+    it('derives damage, healing and upcast scaling from structured spell modifiers', () => {
+      const dice = (diceCount: number | null, diceValue: number | null, fixedValue: number | null = null) =>
+        ({ diceCount, diceValue, fixedValue });
+      const modifier = (type: string, subType: string, die: unknown, atHigherLevels: unknown, extra: Record<string, unknown> = {}) =>
+        ({ id: `${type}-${subType}`, entityId: 0, entityTypeId: 0, type, subType, value: null, friendlyTypeName: '', friendlySubtypeName: '', die, atHigherLevels, ...extra });
+      const spell = (name: string, level: number, modifiers: unknown[], definition: Record<string, unknown> = {}) =>
+        ({ ...SAMPLE_DDB_SPELLS.fireBolt, definition: { ...SAMPLE_DDB_SPELLS.fireBolt.definition, name, level, dice: undefined, damageTypes: undefined, modifiers, ...definition } }) as never;
+
+      const fireBolt = SpellParser.parseSpell(spell('Fire Bolt', 0, [
+        modifier('damage', 'fire', dice(1, 10), {
+          higherLevelDefinitions: [{ level: 11, dice: dice(3, 10) }, { level: 5, dice: dice(2, 10) }, { level: 17, dice: dice(4, 10) }],
+        }),
+      ], { scaleType: 'characterlevel' }));
+      const boomingBlade = SpellParser.parseSpell(spell('Booming Blade', 0, [
+        modifier('damage', 'thunder', null, { higherLevelDefinitions: [{ level: 5, dice: dice(1, 8) }, { level: 11, dice: dice(2, 8) }] }),
+      ], { attackType: undefined, scaleType: 'characterlevel' }));
+      const cureWounds = SpellParser.parseSpell(spell('Cure Wounds', 1, [
+        modifier('bonus', 'hit-points', dice(1, 8), { higherLevelDefinitions: [{ level: 1, typeId: 11, dice: dice(1, 8) }] }, { usePrimaryStat: true }),
+      ], { attackType: undefined, scaleType: 'spellscale' }));
+      const spiritualWeapon = SpellParser.parseSpell(spell('Spiritual Weapon', 2, [
+        modifier('damage', 'force', dice(1, 8), { higherLevelDefinitions: [{ level: 2, dice: dice(1, 8) }] }, { usePrimaryStat: true }),
+      ], { scaleType: 'spellscale' }));
+      const magicMissile = SpellParser.parseSpell(spell('Magic Missile', 1, [
+        modifier('damage', 'force', dice(1, 4, 1), { higherLevelDefinitions: [], additionalTargets: [{ level: 1, value: 1 }] }),
+      ], { attackType: undefined, scaleType: 'spellscale' }));
+
+      expect(fireBolt.system.damage.parts).toEqual([['1d10', 'fire']]);
+      expect(fireBolt.system.scaling).toEqual({ mode: 'cantrip', formula: '' });
+      expect(boomingBlade.system.scaling).toEqual({ mode: 'cantrip', formula: '1d8' });
+      expect(cureWounds.system.actionType).toBe('heal');
+      expect(cureWounds.system.damage.parts).toEqual([['1d8 + @mod', 'healing']]);
+      expect(cureWounds.system.scaling).toEqual({ mode: 'level', formula: '1d8' });
+      expect(spiritualWeapon.system.scaling).toEqual({ mode: 'none', formula: '' });
+      expect(magicMissile.system.damage.parts).toEqual([['1d4 + 1', 'force']]);
+      expect(magicMissile.system.scaling).toEqual({ mode: 'level', formula: '1d4 + 1' });
+      expect(magicMissile.flags['beyond-foundry']).toMatchObject({ upcastTargets: 1 });
+    });
+
+    it('builds cast activities that spend item charges and upcast with extra charges', () => {
+      const charges = (value: string, mode = '') => ({ type: 'itemUses' as const, target: '', value, scaling: { mode, formula: '' } });
+      const burningHands = ActivityAdapter.castActivity({ uuid: 'Compendium.beyondfoundry.spells.Item.burninghands0000', name: 'Burning Hands', level: 1 }, [charges('1', 'amount')]);
+      const fireball = ActivityAdapter.castActivity({ uuid: 'Compendium.beyondfoundry.spells.Item.fireball00000000', level: 3 }, [charges('3')], 1);
+
+      expect(burningHands).toMatchObject({
+        _id: 'dnd5ecast0000000',
+        type: 'cast',
+        name: 'Burning Hands',
+        consumption: { targets: [charges('1', 'amount')], scaling: { allowed: true, max: '' }, spellSlot: false },
+        spell: { uuid: 'Compendium.beyondfoundry.spells.Item.burninghands0000', level: 1 },
+      });
+      expect(fireball._id).toBe('dnd5ecast1000000');
+      expect(fireball.consumption.scaling.allowed).toBe(false);
+    });
+
+    it('emits dnd5e 4.x activities with damage parts, save DC, scaling and consumption', () => {
+      const fireBolt = ActivityAdapter.adapt(SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt), 'activities');
+      const [attack] = activitiesOf(fireBolt);
+
+      expect(fireBolt.system).not.toHaveProperty('actionType');
+      expect(fireBolt.system).not.toHaveProperty('damage');
+      expect(fireBolt.system.range).toEqual({ value: 120, long: null, units: 'ft' });
+      expect(attack).toMatchObject({
+        _id: 'dnd5eattack00000',
+        type: 'attack',
+        attack: { type: { value: 'ranged', classification: 'spell' } },
+        damage: {
+          parts: [{ number: 1, denomination: 10, bonus: '', types: ['fire'], scaling: { mode: 'whole', number: 1 } }],
+        },
+        consumption: { targets: [], spellSlot: false },
+      });
+
+      const burningHands = ActivityAdapter.adapt({
+        ...SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt),
+        system: {
+          ...SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt).system,
+          level: 1,
+          description: { value: '<p>Each creature in a 15-foot cone takes 3d6 fire damage on a failed save, or half as much damage on a successful one.</p>', chat: '' },
+          actionType: 'save',
+          save: { ability: 'dex', dc: null, scaling: 'spell' },
+          damage: { parts: [['3d6', 'fire']], versatile: '', value: '' },
+          scaling: { mode: 'level', formula: '1d6' },
+          target: { value: 15, width: null, units: 'ft', type: 'cone' },
+        },
+      }, 'activities');
+      const [save] = activitiesOf(burningHands);
+      expect(save).toMatchObject({
+        type: 'save',
+        save: { ability: ['dex'], dc: { calculation: 'spellcasting', formula: '' } },
+        damage: { onSave: 'half', parts: [{ number: 3, denomination: 6, scaling: { mode: 'whole', number: 1 } }] },
+        target: { template: { count: '1', type: 'cone', size: '15', units: 'ft' } },
+        consumption: { spellSlot: true },
+      });
+      const blindness = ActivityAdapter.adapt({
+        type: 'spell',
+        system: { level: 2, description: { value: '<p>The target is blinded on a failed save.</p>' }, actionType: 'save', save: { ability: 'con' } },
+      }, 'activities');
+      expect(activitiesOf(blindness)[0]).toMatchObject({ damage: { onSave: 'none' } });
+
+      const cureWounds = ActivityAdapter.adapt({
+        type: 'spell',
+        system: { level: 1, actionType: 'heal', damage: { parts: [['1d8 + @mod', 'healing']] }, scaling: { mode: 'level', formula: '1d8' } },
+      }, 'activities');
+      expect(activitiesOf(cureWounds)[0]?.healing).toMatchObject({ number: 1, denomination: 8, bonus: '@mod', types: ['healing'] });
+
+      const wandSpell = ActivityAdapter.adapt({
+        type: 'spell',
+        system: {
+          level: 1,
+          actionType: 'other',
+          preparation: { mode: 'innate' },
+          uses: { value: null, max: '', per: null, recovery: '' },
+          consume: { type: 'charges', target: '', amount: 1, scale: true },
+        },
+      }, 'activities');
+      const [utility] = activitiesOf(wandSpell);
+      expect(utility.consumption).toEqual({
+        targets: [{ type: 'itemUses', target: '', value: '1', scaling: { mode: 'amount', formula: '' } }],
+        scaling: { allowed: true, max: '' },
+        spellSlot: false,
+      });
+      expect(wandSpell.system).toHaveProperty('uses', { spent: 0, max: '', recovery: [] });
+      expect(ActivityAdapter.adapt(SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt))).toHaveProperty('system.actionType', 'rsak');
+    });
+
+    it('maps area of effect shapes to template targets with self origins, line width and cylinder height', () => {
+      const withRange = (name: string, range: Record<string, unknown>, description = '') => SpellParser.parseSpell({
+        ...SAMPLE_DDB_SPELLS.fireBolt,
+        definition: { ...SAMPLE_DDB_SPELLS.fireBolt.definition, name, description, range },
+      } as unknown as DDBSpell);
+
+      const burningHands = withRange('Burning Hands', { origin: 'Self', rangeValue: 0, aoeType: 'Cone', aoeValue: 15 });
+      expect(burningHands.system.range).toEqual({ value: null, long: null, units: 'self' });
+      expect(burningHands.system.target).toEqual({ value: 15, width: null, units: 'ft', type: 'cone' });
+
+      const fireball = withRange('Fireball', { origin: 'Ranged', rangeValue: 150, aoeType: 'Sphere', aoeSize: 20 });
+      expect(fireball.system.range).toEqual({ value: 150, long: null, units: 'ft' });
+      expect(fireball.system.target).toMatchObject({ value: 20, units: 'ft', type: 'sphere' });
+
+      const spiritGuardians = withRange('Spirit Guardians', { origin: 'Self', aoeType: 'Sphere', aoeValue: 15 });
+      expect(spiritGuardians.system.target.type).toBe('radius');
+
+      const lightningBolt = withRange('Lightning Bolt', { origin: 'Self', aoeType: 'Line', aoeValue: 100 },
+        '<p>A stroke of lightning forming a line 100 feet long and 5 feet wide blasts out from you.</p>');
+      expect(lightningBolt.system.target).toEqual({ value: 100, width: 5, units: 'ft', type: 'line' });
+
+      const moonbeam = withRange('Moonbeam', { origin: 'Ranged', rangeValue: 120, aoeType: 'Cylinder', aoeValue: 5 },
+        '<p>A silvery beam of pale light shines down in a 5-foot-radius, 40-foot-high cylinder.</p>');
+      expect(moonbeam.system.target).toMatchObject({ value: 5, height: 40, type: 'cylinder' });
+      const [activity] = activitiesOf(ActivityAdapter.adapt(moonbeam, 'activities'));
+      expect(activity?.target.template).toMatchObject({ type: 'cylinder', size: '5', height: '40', units: 'ft' });
+
+      expect(withRange('Sending', { origin: 'Ranged', rangeValue: 5280 }).system.range).toEqual({ value: 1, long: null, units: 'mi' });
+    });
+
+    it('extracts material cost and consumption and matches the material to inventory items', () => {
+      const withMaterials = (name: string, componentsDescription: string) => SpellParser.parseSpell({
+        ...SAMPLE_DDB_SPELLS.fireBolt,
+        definition: {
+          ...SAMPLE_DDB_SPELLS.fireBolt.definition,
+          name,
+          components: { verbal: true, somatic: true, material: true },
+          componentsDescription,
+        },
+      } as DDBSpell);
+
+      const revivify = withMaterials('Revivify', 'diamonds worth 300 gp, which the spell consumes');
+      expect(revivify.system.materials).toEqual({ value: 'diamonds worth 300 gp, which the spell consumes', consumed: true, cost: 300, supply: 0 });
+      expect(revivify.system.description.value).not.toContain('Focus');
+
+      const chromaticOrb = withMaterials('Chromatic Orb', 'a diamond worth at least 50 gp');
+      expect(chromaticOrb.system.materials).toMatchObject({ consumed: false, cost: 50 });
+      expect(withMaterials('Clone', 'a diamond worth at least 1,000 gp').system.materials.cost).toBe(1000);
+
+      const fireball = withMaterials('Fireball', 'a tiny ball of bat guano and sulfur');
+      expect(fireball.system.materials).toMatchObject({ consumed: false, cost: 0 });
+      expect(fireball.system.description.value).toContain('Focus');
+
+      expect(SpellParser.matchesMaterial('diamonds worth 300 gp, which the spell consumes', 'Diamond (300 gp)')).toBe(true);
+      expect(SpellParser.matchesMaterial('a diamond worth at least 50 gp', 'Diamond')).toBe(true);
+      expect(SpellParser.matchesMaterial('ruby dust worth 50 gp', 'Diamond')).toBe(false);
+      expect(SpellParser.matchesMaterial('a pinch of diamond dust', 'Diamond Dust')).toBe(true);
+    });
+
+    it('links consumed materials without replacing a legacy consume target that is already set', async () => {
+      const revivify = (id: string, consume: Record<string, unknown>) => ({
+        id,
+        type: 'spell',
+        system: { materials: { value: 'diamonds worth 300 gp, which the spell consumes', consumed: true }, consume },
+      });
+      const actor = {
+        items: [
+          { id: 'diamond000000000', name: 'Diamond (300 gp)', type: 'loot', system: {} },
+          revivify('revivify00000000', { type: '', target: '', amount: null }),
+          revivify('revivifywand0000', { type: 'charges', target: 'wand000000000000', amount: 1 }),
+        ],
+        updateEmbeddedDocuments: vi.fn(async () => []),
+      };
+
+      const linked = await BeyondFoundryAPI.getInstance().linkMaterialComponents(actor as never);
+
+      expect(linked).toBe(1);
+      expect(actor.updateEmbeddedDocuments).toHaveBeenCalledWith('Item', [
+        { _id: 'revivify00000000', 'system.consume': { type: 'material', target: 'diamond000000000', amount: 1, scale: false } },
+      ]);
+    });
+
+    it('generates spell scrolls with DMG save DCs and lists the spells a charged item casts', () => {
+      const fireball = SpellParser.parseSpell({
+        ...SAMPLE_DDB_SPELLS.fireBolt,
+        definition: {
+          ...SAMPLE_DDB_SPELLS.fireBolt.definition,
+          id: 2143,
+          name: 'Fireball',
+          level: 3,
+          description: '<p>Each creature in a 20-foot-radius sphere takes 8d6 fire damage on a failed save, or half as much damage on a successful one.</p>',
+          attackType: undefined,
+          saveType: 2,
+          range: { origin: 'Ranged', rangeValue: 150, aoeType: 'Sphere', aoeValue: 20 },
+        },
+      } as DDBSpell);
+      const scroll = ItemParser.parseSpellScroll(fireball);
+      expect(scroll).toMatchObject({
+        name: 'Spell Scroll: Fireball',
+        type: 'consumable',
+        system: {
+          type: { value: 'scroll' },
+          rarity: 'uncommon',
+          level: 3,
+          uses: { value: 1, max: '1', autoDestroy: true },
+          save: { ability: 'dex', dc: 15, scaling: 'flat' },
+          attack: { bonus: '7', flat: true },
+          target: { value: 20, type: 'sphere' },
+        },
+      });
+
+      const [save] = activitiesOf(ActivityAdapter.adapt(scroll, 'activities'));
+      expect(save).toMatchObject({
+        type: 'save',
+        save: { dc: { calculation: '', formula: '15' } },
+        damage: { onSave: 'half' },
+        consumption: { targets: [{ type: 'itemUses', value: '1' }], spellSlot: false },
+      });
+      const fireBoltScroll = ActivityAdapter.adapt(ItemParser.parseSpellScroll(SpellParser.parseSpell(SAMPLE_DDB_SPELLS.fireBolt)), 'activities');
+      expect(activitiesOf(fireBoltScroll)[0]).toMatchObject({ attack: { bonus: '5', flat: true } });
+
+      const staffOfFire = {
+        id: 901,
+        definition: { id: 4710, name: 'Staff of Fire', type: null, filterType: 'Staff', rarity: 'Very Rare', magic: true, description: '' },
+        quantity: 1,
+        equipped: true,
+        limitedUse: { maxUses: 10, numberUsed: 2, resetType: 4 },
+      };
+      const itemSpell = (id: number, name: string, level: number, charges: number, maxCharges = charges) => ({
+        ...SAMPLE_DDB_SPELLS.fireBolt,
+        definition: { ...SAMPLE_DDB_SPELLS.fireBolt.definition, id, name, level },
+        componentId: 4710,
+        limitedUse: { minNumberConsumed: charges, maxNumberConsumed: maxCharges },
+      });
+      const staff = ItemParser.parseItem(staffOfFire as unknown as DDBItem, {
+        spells: {
+          item: [
+            itemSpell(2056, 'Burning Hands', 1, 1, 9),
+            itemSpell(2143, 'Fireball', 3, 3),
+            itemSpell(2281, 'Wall of Fire', 4, 4),
+          ],
+        },
+      } as unknown as DDBCharacter);
+      expect(staff?.type).toBe('equipment');
+      expect(staff?.system.uses).toMatchObject({ value: 8, max: '10' });
+      expect((staff?.flags['beyond-foundry'] as Record<string, unknown>).spells).toEqual([
+        { ddbId: 2056, name: 'Burning Hands', level: 1, charges: 1, scale: true },
+        { ddbId: 2143, name: 'Fireball', level: 3, charges: 3, scale: false },
+        { ddbId: 2281, name: 'Wall of Fire', level: 4, charges: 4, scale: false },
+      ]);
+    });
+
+    it('imports inventory spell scrolls from the item spells or the spell compendium', async () => {
+      const fireball = {
+        ...SAMPLE_DDB_SPELLS.fireBolt,
+        definition: {
+          ...SAMPLE_DDB_SPELLS.fireBolt.definition,
+          id: 2143,
+          name: 'Fireball',
+          level: 3,
+          attackType: undefined,
+          saveType: 2,
+          description: '<p>Each creature takes 8d6 fire damage on a failed save, or half as much damage on a successful one.</p>',
+        },
+      } as unknown as DDBSpell;
+      const scroll = (id: number, definitionId: number, name: string) => ({
+        id,
+        quantity: 2,
+        equipped: false,
+        definition: { id: definitionId, name, type: 'Scroll', filterType: 'Scroll', rarity: 'Uncommon', magic: true, description: '' },
+      }) as unknown as DDBItem;
+
+      const listed = scroll(31, 9001, 'Spell Scroll (3rd Level)');
+      const character = { spells: { item: [{ ...fireball, componentId: 9001 }] } } as unknown as DDBCharacter;
+      expect(ItemParser.parseItem(listed, character)).toMatchObject({
+        name: 'Spell Scroll: Fireball',
+        type: 'consumable',
+        system: { type: { value: 'scroll' }, quantity: 2, save: { ability: 'dex', dc: 15 } },
+        flags: { 'beyond-foundry': { ddbId: 31, sourceId: 9001, scrollSpell: 'Fireball' } },
+      });
+
+      // DDB does not list this one among the item spells; its name points at the spell compendium
+      const named = scroll(32, 9002, 'Spell Scroll (Fireball)');
+      const compendiumFireball = SpellParser.parseSpell(fireball);
+      const pack = {
+        index: [{ _id: 'fireball00000000', name: 'Fireball' }],
+        getIndex: vi.fn(async () => undefined),
+        getDocument: vi.fn(async () => ({ toObject: () => compendiumFireball })),
+      };
+      const { game, Item } = globalThis as unknown as { game: Record<string, unknown>; Item: object };
+      const packs = game.packs;
+      game.packs = new Map([['beyondfoundry.spells', pack]]);
+      const create = vi.fn(async () => null);
+      Object.assign(Item, { create });
+
+      try {
+        const imported = await BeyondFoundryAPI.getInstance().addItemsToActor({} as never, [named], {}, { spells: {} } as never);
+        expect(imported).toBe(1);
+        expect(create).toHaveBeenCalledWith(expect.objectContaining({
+          name: 'Spell Scroll: Fireball',
+          type: 'consumable',
+          system: expect.objectContaining({ quantity: 2, level: 3 }),
+        }), expect.anything());
+      } finally {
+        game.packs = packs;
+        Reflect.deleteProperty(Item, 'create');
+      }
+    });
+
+    it('gives a charged item a cast activity per spell that spends its charges', async () => {
+      const flagged = (flags: Record<string, unknown>) => (_scope: string, key: string) => flags[key];
+      const staff = {
+        id: 'staffoffire00000',
+        type: 'equipment',
+        system: { activities: {} },
+        getFlag: flagged({
+          sourceId: 4710,
+          spells: [
+            { ddbId: 2056, name: 'Burning Hands', level: 1, charges: 1, scale: true },
+            { ddbId: 2143, name: 'Fireball', level: 3, charges: 3, scale: false },
+          ],
+        }),
+      };
+      const spell = (id: string, ddbId: number) => ({
+        id,
+        uuid: `Actor.hero.Item.${id}`,
+        type: 'spell',
+        getFlag: flagged({ ddbId, grantedBy: { source: 'item', componentId: 4710 } }),
+      });
+      const actor = {
+        items: [staff, spell('burninghands0000', 2056), spell('fireball00000000', 2143)],
+        updateEmbeddedDocuments: vi.fn(async () => []),
+      };
+
+      const updated = await BeyondFoundryAPI.getInstance().addItemCastActivities(actor as never);
+      const [[, [update]]] = actor.updateEmbeddedDocuments.mock.calls as unknown as [[string, [Record<string, unknown>]]];
+
+      expect(updated).toBe(1);
+      expect(update._id).toBe('staffoffire00000');
+      expect(update['system.activities.dnd5ecast0000000']).toMatchObject({
+        type: 'cast',
+        name: 'Burning Hands',
+        consumption: { targets: [{ type: 'itemUses', target: '', value: '1', scaling: { mode: 'amount', formula: '' } }], scaling: { allowed: true } },
+        spell: { uuid: 'Actor.hero.Item.burninghands0000', level: 1, spellbook: false },
+      });
+      expect(update['system.activities.dnd5ecast1000000']).toMatchObject({
+        name: 'Fireball',
+        consumption: { targets: [{ type: 'itemUses', value: '3' }], scaling: { allowed: false } },
+        spell: { uuid: 'Actor.hero.Item.fireball00000000', level: 3 },
+      });
+    });
   });
 
   describe('Integration Tests (Requires Proxy)', () => {